@@ -8,6 +8,7 @@ import Auth from "./pages/Auth";
 import Dashboard from "./pages/Dashboard";
 import JoinWedding from "./pages/JoinWedding";
 import Guest from "./pages/Guest";
+import GuestAlbum from "./pages/GuestAlbum";
 import CoupleFeed from "./pages/CoupleFeed";
 import NotFound from "./pages/NotFound";
 
@@ -25,7 +26,9 @@ const App = () => (
           <Route path="/dashboard" element={<Dashboard />} />
           <Route path="/join" element={<JoinWedding />} />
           <Route path="/guest" element={<Guest />} />
+          <Route path="/guest/album" element={<GuestAlbum />} />
           <Route path="/feed/:eventCode" element={<CoupleFeed />} />
+          <Route path="/feed/:eventCode/review" element={<CoupleFeed reviewing />} />
           {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
           <Route path="*" element={<NotFound />} />
         </Routes>
@@ -0,0 +1,134 @@
+import { useRef, useState } from "react";
+import { Slider } from "@/components/ui/slider";
+import { ZoomIn, ZoomOut } from "lucide-react";
+import { COVER_ASPECT, CoverCrop } from "@/lib/covers";
+
+interface ImageSize {
+  width: number;
+  height: number;
+}
+
+interface CoverCropperProps {
+  src: string;
+  crop: CoverCrop | null;
+  onCropChange: (crop: CoverCrop) => void;
+  disabled?: boolean;
+}
+
+const MAX_ZOOM = 3;
+
+// The largest region of the image with the cover's shape
+const fullCrop = ({ width, height }: ImageSize) =>
+  width / height > COVER_ASPECT
+    ? { width: height * COVER_ASPECT, height }
+    : { width, height: width / COVER_ASPECT };
+
+// Keep the region inside the image
+const clampCrop = (crop: CoverCrop, size: ImageSize): CoverCrop => ({
+  ...crop,
+  x: Math.min(Math.max(crop.x, 0), size.width - crop.width),
+  y: Math.min(Math.max(crop.y, 0), size.height - crop.height),
+});
+
+// Drag to frame the cover, slide to zoom. The frame has the cover's shape, so
+// what shows inside it is exactly what gets saved.
+const CoverCropper = ({ src, crop, onCropChange, disabled }: CoverCropperProps) => {
+  const frameRef = useRef<HTMLDivElement>(null);
+  const dragRef = useRef<{ pointerX: number; pointerY: number; crop: CoverCrop } | null>(null);
+  const [size, setSize] = useState<ImageSize | null>(null);
+
+  // Start zoomed out as far as the shape allows, centred
+  const handleLoad = (e: React.SyntheticEvent<HTMLImageElement>) => {
+    const loaded = { width: e.currentTarget.naturalWidth, height: e.currentTarget.naturalHeight };
+    const full = fullCrop(loaded);
+    setSize(loaded);
+    onCropChange({ x: (loaded.width - full.width) / 2, y: (loaded.height - full.height) / 2, ...full });
+  };
+
+  const zoom = size && crop ? fullCrop(size).width / crop.width : 1;
+
+  // Zoom around the middle of the frame
+  const handleZoom = ([value]: number[]) => {
+    if (!size || !crop) return;
+    const full = fullCrop(size);
+    const width = full.width / value;
+    const height = full.height / value;
+    const centerX = crop.x + crop.width / 2;
+    const centerY = crop.y + crop.height / 2;
+    onCropChange(clampCrop({ x: centerX - width / 2, y: centerY - height / 2, width, height }, size));
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (disabled || !crop) return;
+    e.currentTarget.setPointerCapture(e.pointerId);
+    dragRef.current = { pointerX: e.clientX, pointerY: e.clientY, crop };
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    const drag = dragRef.current;
+    const frame = frameRef.current;
+    if (!drag || !frame || !size) return;
+
+    // Screen pixels to image pixels; the image moves with the pointer
+    const scale = drag.crop.width / frame.clientWidth;
+    onCropChange(
+      clampCrop(
+        {
+          ...drag.crop,
+          x: drag.crop.x - (e.clientX - drag.pointerX) * scale,
+          y: drag.crop.y - (e.clientY - drag.pointerY) * scale,
+        },
+        size
+      )
+    );
+  };
+
+  const handlePointerUp = () => {
+    dragRef.current = null;
+  };
+
+  return (
+    <div className="space-y-3">
+      <div
+        ref={frameRef}
+        className="relative w-full aspect-video overflow-hidden rounded-lg bg-muted touch-none cursor-move"
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerCancel={handlePointerUp}
+      >
+        <img
+          src={src}
+          alt="Cover preview"
+          draggable={false}
+          onLoad={handleLoad}
+          className="absolute max-w-none select-none"
+          style={
+            size && crop
+              ? {
+                  width: `${(size.width / crop.width) * 100}%`,
+                  left: `${(-crop.x / crop.width) * 100}%`,
+                  top: `${(-crop.y / crop.height) * 100}%`,
+                }
+              : { visibility: "hidden" }
+          }
+        />
+      </div>
+      <div className="flex items-center gap-3 px-1">
+        <ZoomOut className="w-4 h-4 text-muted-foreground shrink-0" />
+        <Slider
+          min={1}
+          max={MAX_ZOOM}
+          step={0.01}
+          value={[zoom]}
+          onValueChange={handleZoom}
+          disabled={disabled || !crop}
+          aria-label="Zoom"
+        />
+        <ZoomIn className="w-4 h-4 text-muted-foreground shrink-0" />
+      </div>
+    </div>
+  );
+};
+
+export default CoverCropper;
@@ -0,0 +1,209 @@
+import { useState, useEffect, useRef, useCallback } from "react";
+import { Button } from "@/components/ui/button";
+import { X, Zap, ZapOff, SwitchCamera, Loader2 } from "lucide-react";
+import { formatMomentsRemaining } from "@/lib/moments";
+
+interface DisposableCameraProps {
+  photosRemaining: number;
+  momentAllowance: number | null;
+  onCapture: (shot: Blob, takenAt: Date) => Promise<void>; // Shares the shot; closes the camera when done
+  onClose: () => void;
+}
+
+type FacingMode = "environment" | "user";
+
+// Torch support isn't in the DOM typings yet
+interface TorchCapabilities extends MediaTrackCapabilities {
+  torch?: boolean;
+}
+
+// Like a disposable camera: one press of the shutter is one moment.
+// There is no preview to retake from - the shot is shared straight away.
+const DisposableCamera = ({ photosRemaining, momentAllowance, onCapture, onClose }: DisposableCameraProps) => {
+  const [facingMode, setFacingMode] = useState<FacingMode>("environment");
+  const [flashOn, setFlashOn] = useState(false);
+  const [hasTorch, setHasTorch] = useState(false);
+  const [ready, setReady] = useState(false);
+  const [cameraError, setCameraError] = useState<string | null>(null);
+  const [flashing, setFlashing] = useState(false);
+  const [developing, setDeveloping] = useState(false);
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const streamRef = useRef<MediaStream | null>(null);
+
+  const stopStream = useCallback(() => {
+    streamRef.current?.getTracks().forEach((track) => track.stop());
+    streamRef.current = null;
+  }, []);
+
+  // (Re)start the camera whenever the guest flips between front and back
+  useEffect(() => {
+    let cancelled = false;
+
+    const start = async () => {
+      setReady(false);
+      stopStream();
+
+      if (!navigator.mediaDevices?.getUserMedia) {
+        setCameraError("This browser can't open the camera. Try Safari or Chrome.");
+        return;
+      }
+
+      try {
+        const stream = await navigator.mediaDevices.getUserMedia({
+          video: { facingMode, width: { ideal: 1920 }, height: { ideal: 1920 } },
+          audio: false,
+        });
+        if (cancelled) {
+          stream.getTracks().forEach((track) => track.stop());
+          return;
+        }
+
+        streamRef.current = stream;
+        const [track] = stream.getVideoTracks();
+        setHasTorch(!!(track.getCapabilities?.() as TorchCapabilities | undefined)?.torch);
+
+        if (videoRef.current) {
+          videoRef.current.srcObject = stream;
+          await videoRef.current.play();
+        }
+        setCameraError(null);
+        setReady(true);
+      } catch (error) {
+        if (cancelled) return;
+        setCameraError(
+          (error as Error).name === "NotAllowedError"
+            ? "Camera access was blocked. Allow it in your browser settings to take a shot."
+            : "The camera couldn't be started."
+        );
+      }
+    };
+
+    start();
+    return () => {
+      cancelled = true;
+      stopStream();
+    };
+  }, [facingMode, stopStream]);
+
+  // A real flash on the back camera when the phone has one; otherwise the
+  // screen lights up white for the shot (which is what selfie flash does)
+  const fireFlash = async () => {
+    const [track] = streamRef.current?.getVideoTracks() ?? [];
+
+    if (hasTorch && track) {
+      await track.applyConstraints({ advanced: [{ torch: true } as MediaTrackConstraintSet] });
+      await new Promise((resolve) => setTimeout(resolve, 300));
+      return () => track.applyConstraints({ advanced: [{ torch: false } as MediaTrackConstraintSet] });
+    }
+
+    setFlashing(true);
+    await new Promise((resolve) => setTimeout(resolve, 150));
+    return () => setFlashing(false);
+  };
+
+  const handleShutter = async () => {
+    const video = videoRef.current;
+    if (!video || !ready || developing) return;
+
+    setDeveloping(true);
+    const takenAt = new Date();
+    const endFlash = flashOn ? await fireFlash() : null;
+
+    try {
+      const canvas = document.createElement("canvas");
+      canvas.width = video.videoWidth;
+      canvas.height = video.videoHeight;
+      const ctx = canvas.getContext("2d");
+      if (!ctx) throw new Error("Canvas is not available.");
+
+      // The front camera preview is mirrored; the shot is not
+      ctx.drawImage(video, 0, 0, canvas.width, canvas.height);
+      await endFlash?.();
+
+      const shot = await new Promise<Blob>((resolve, reject) => {
+        canvas.toBlob(
+          (blob) => (blob ? resolve(blob) : reject(new Error("The shot couldn't be saved."))),
+          "image/jpeg",
+          0.92
+        );
+      });
+
+      await onCapture(shot, takenAt);
+    } catch {
+      await endFlash?.();
+      setDeveloping(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black flex flex-col animate-fade-in">
+      <header className="p-4 flex items-center justify-between text-white">
+        <Button variant="ghost" size="icon" onClick={onClose} disabled={developing} className="text-white hover:bg-white/10">
+          <X className="w-6 h-6" />
+        </Button>
+        <span className="text-sm">{formatMomentsRemaining(photosRemaining, momentAllowance)}</span>
+        <Button
+          variant="ghost"
+          size="icon"
+          onClick={() => setFlashOn((on) => !on)}
+          disabled={developing}
+          className="text-white hover:bg-white/10"
+          aria-label={flashOn ? "Turn flash off" : "Turn flash on"}
+        >
+          {flashOn ? <Zap className="w-6 h-6 text-yellow-300" /> : <ZapOff className="w-6 h-6" />}
+        </Button>
+      </header>
+
+      <div className="relative flex-1 overflow-hidden">
+        <video
+          ref={videoRef}
+          className={`w-full h-full object-cover ${facingMode === "user" ? "-scale-x-100" : ""}`}
+          muted
+          playsInline
+        />
+
+        {cameraError && (
+          <div className="absolute inset-0 flex items-center justify-center p-8">
+            <p className="text-white text-center">{cameraError}</p>
+          </div>
+        )}
+
+        {developing && !flashing && (
+          <div className="absolute inset-0 bg-black/60 flex flex-col items-center justify-center gap-3 text-white">
+            <Loader2 className="w-8 h-8 animate-spin" />
+            <p className="font-display">Developing...</p>
+          </div>
+        )}
+
+        {flashing && <div className="absolute inset-0 bg-white" />}
+      </div>
+
+      <div className="p-8 flex items-center justify-between">
+        <div className="w-12" />
+        <button
+          type="button"
+          onClick={handleShutter}
+          disabled={!ready || developing}
+          className="w-20 h-20 rounded-full border-4 border-white flex items-center justify-center disabled:opacity-50"
+          aria-label="Take the shot"
+        >
+          <span className="w-16 h-16 rounded-full bg-white active:scale-90 transition-transform" />
+        </button>
+        <Button
+          variant="ghost"
+          size="icon"
+          onClick={() => setFacingMode((mode) => (mode === "environment" ? "user" : "environment"))}
+          disabled={developing}
+          className="w-12 h-12 text-white hover:bg-white/10"
+          aria-label="Switch camera"
+        >
+          <SwitchCamera className="w-6 h-6" />
+        </Button>
+      </div>
+
+      <p className="pb-6 text-center text-xs text-white/60">No retakes. Every shot is shared as it is.</p>
+    </div>
+  );
+};
+
+export default DisposableCamera;
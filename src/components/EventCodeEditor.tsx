@@ -0,0 +1,189 @@
+import { useState, useEffect } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { useToast } from "@/hooks/use-toast";
+import { Check, Loader2, RefreshCw, X } from "lucide-react";
+import { vanityCodeSchema } from "@/lib/eventCodes";
+
+interface EventCodeEditorProps {
+  eventId: string;
+  eventCode: string;
+  onChanged: (eventCode: string) => void;
+}
+
+type Availability = "checking" | "available" | "taken";
+
+const AVAILABILITY_HINTS: Record<Availability, string> = {
+  checking: "Checking...",
+  available: "Available! Printed QR codes with the old code will stop working.",
+  taken: "That code is taken",
+};
+
+// Claim a code of the couple's own, or swap a leaked one for a fresh one.
+// Either way the old code stops working for new guests.
+const EventCodeEditor = ({ eventId, eventCode, onChanged }: EventCodeEditorProps) => {
+  const [editing, setEditing] = useState(false);
+  const [code, setCode] = useState("");
+  const [availability, setAvailability] = useState<Availability | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [showRotate, setShowRotate] = useState(false);
+  const { toast } = useToast();
+
+  const codeResult = vanityCodeSchema.safeParse(code);
+  const unchanged = codeResult.success && codeResult.data === eventCode;
+
+  // Check the code as it is typed
+  useEffect(() => {
+    setAvailability(null);
+    const result = vanityCodeSchema.safeParse(code);
+    if (!result.success || result.data === eventCode) return;
+
+    let cancelled = false;
+    setAvailability("checking");
+    const timeout = setTimeout(async () => {
+      const { data, error } = await supabase.rpc("event_code_available", {
+        code: result.data,
+        event_uuid: eventId,
+      });
+      if (!cancelled) setAvailability(error ? null : data ? "available" : "taken");
+    }, 400);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timeout);
+    };
+  }, [code, eventCode, eventId]);
+
+  const hint = !codeResult.success
+    ? codeResult.error.errors[0].message
+    : unchanged
+      ? "This is your current code"
+      : availability
+        ? AVAILABILITY_HINTS[availability]
+        : "";
+
+  const handleEdit = () => {
+    setCode(eventCode);
+    setEditing(true);
+  };
+
+  const handleClaim = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!codeResult.success) {
+      toast({ title: "Invalid code", description: codeResult.error.errors[0].message, variant: "destructive" });
+      return;
+    }
+
+    setSaving(true);
+    const { data, error } = await supabase.rpc("claim_event_code", { event_uuid: eventId, code: codeResult.data });
+
+    if (error) {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    } else {
+      onChanged(data);
+      setEditing(false);
+      toast({ title: "Event code updated", description: `Share ${data} or your new QR code with guests.` });
+    }
+    setSaving(false);
+  };
+
+  const handleRotate = async () => {
+    setSaving(true);
+    const { data, error } = await supabase.rpc("rotate_event_code", { event_uuid: eventId });
+
+    if (error) {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    } else {
+      onChanged(data);
+      toast({ title: "New event code", description: `${eventCode} no longer works. Guests already in keep their access.` });
+    }
+    setSaving(false);
+    setShowRotate(false);
+  };
+
+  return (
+    <>
+      {editing ? (
+        <form onSubmit={handleClaim} className="space-y-2">
+          <div className="flex items-center gap-2">
+            <Input
+              value={code}
+              onChange={(e) => setCode(e.target.value.toUpperCase())}
+              maxLength={20}
+              className="bg-background font-mono tracking-wider uppercase"
+              aria-label="New event code"
+              autoFocus
+              disabled={saving}
+            />
+            <Button
+              type="submit"
+              variant="ghost"
+              size="icon"
+              className="text-primary"
+              disabled={saving || unchanged || availability !== "available"}
+              aria-label="Save code"
+            >
+              {saving ? <Loader2 className="w-4 h-4 animate-spin" /> : <Check className="w-4 h-4" />}
+            </Button>
+            <Button
+              type="button"
+              variant="ghost"
+              size="icon"
+              className="text-muted-foreground"
+              onClick={() => setEditing(false)}
+              disabled={saving}
+              aria-label="Cancel"
+            >
+              <X className="w-4 h-4" />
+            </Button>
+          </div>
+          <p className={availability === "taken" ? "text-xs text-destructive" : "text-xs text-muted-foreground"}>
+            {hint}
+          </p>
+        </form>
+      ) : (
+        <div className="flex gap-2">
+          <Button variant="outline" size="sm" onClick={handleEdit} disabled={saving}>
+            Customize
+          </Button>
+          <Button variant="ghost" size="sm" onClick={() => setShowRotate(true)} disabled={saving}>
+            <RefreshCw className="mr-2 h-3 w-3" />
+            New code
+          </Button>
+        </div>
+      )}
+
+      <AlertDialog open={showRotate} onOpenChange={setShowRotate}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Replace {eventCode}?</AlertDialogTitle>
+            <AlertDialogDescription>
+              The event gets a new code and QR code. The old code, and any QR codes or links already shared,
+              stop working for new guests. Guests who have already joined keep their access.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={saving}>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleRotate} disabled={saving}>
+              {saving ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : null}
+              Replace Code
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </>
+  );
+};
+
+export default EventCodeEditor;
@@ -0,0 +1,198 @@
+import { useState, useEffect, useCallback } from "react";
+import { z } from "zod";
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { Loader2, Send, X } from "lucide-react";
+import { HOST_ROLES, type HostRole, canManageEvent, hostRoleLabel, sendHostInvite } from "@/lib/hosts";
+
+type EventHost = Pick<Tables<"event_hosts">, "id" | "user_id" | "email" | "role" | "accepted_at">;
+
+const emailSchema = z.string().trim().email({ message: "Enter a valid email address" });
+
+interface EventHostsProps {
+  eventId: string;
+  userId: string;
+  role: HostRole; // The signed-in host's own role
+  onLeft: () => void;
+}
+
+// Who runs the event with the couple, and invitations for more
+const EventHosts = ({ eventId, userId, role, onLeft }: EventHostsProps) => {
+  const [hosts, setHosts] = useState<EventHost[]>([]);
+  const [email, setEmail] = useState("");
+  const [inviteRole, setInviteRole] = useState<HostRole>("co_host");
+  const [inviting, setInviting] = useState(false);
+  const { toast } = useToast();
+  const canManage = canManageEvent(role);
+
+  const fetchHosts = useCallback(async () => {
+    const { data, error } = await supabase
+      .from("event_hosts")
+      .select("id, user_id, email, role, accepted_at")
+      .eq("wedding_event_id", eventId)
+      .order("created_at", { ascending: true });
+
+    if (!error && data) {
+      setHosts(data);
+    }
+  }, [eventId]);
+
+  useEffect(() => {
+    fetchHosts();
+  }, [fetchHosts]);
+
+  // Only owners can add, change or remove other owners
+  const canChange = (host: EventHost) =>
+    canManage && host.user_id !== userId && (host.role !== "owner" || role === "owner");
+
+  const assignableRoles = HOST_ROLES.filter((r) => r.value !== "owner" || role === "owner");
+
+  const handleInvite = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const emailResult = emailSchema.safeParse(email);
+    if (!emailResult.success) {
+      toast({ title: "Invalid email", description: emailResult.error.errors[0].message, variant: "destructive" });
+      return;
+    }
+
+    setInviting(true);
+    const { error } = await supabase
+      .from("event_hosts")
+      .insert({ wedding_event_id: eventId, email: emailResult.data, role: inviteRole });
+
+    if (error) {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    } else {
+      const { error: linkError } = await sendHostInvite(emailResult.data);
+      toast(
+        linkError
+          ? { title: "Invite saved", description: `They can sign in as ${emailResult.data} to accept.` }
+          : { title: "Invite sent", description: `${emailResult.data} will get a sign-in link.` }
+      );
+      setEmail("");
+      fetchHosts();
+    }
+    setInviting(false);
+  };
+
+  const handleChangeRole = async (host: EventHost, newRole: HostRole) => {
+    const { error } = await supabase.from("event_hosts").update({ role: newRole }).eq("id", host.id);
+
+    if (error) {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    } else {
+      setHosts((prev) => prev.map((h) => (h.id === host.id ? { ...h, role: newRole } : h)));
+    }
+  };
+
+  const handleRemove = async (host: EventHost) => {
+    const { error } = await supabase.from("event_hosts").delete().eq("id", host.id);
+
+    if (error) {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    } else if (host.user_id === userId) {
+      onLeft();
+    } else {
+      setHosts((prev) => prev.filter((h) => h.id !== host.id));
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <ul className="space-y-3">
+        {hosts.map((host) => (
+          <li key={host.id} className="flex items-center gap-3">
+            <div className="flex-1 min-w-0">
+              <p className="text-sm truncate">
+                {host.email}
+                {host.user_id === userId && <span className="text-muted-foreground"> (you)</span>}
+              </p>
+              {!host.accepted_at && <Badge variant="outline" className="mt-1">Invited</Badge>}
+            </div>
+            {canChange(host) ? (
+              <>
+                <Select value={host.role} onValueChange={(value) => handleChangeRole(host, value as HostRole)}>
+                  <SelectTrigger className="w-36 bg-background">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {assignableRoles.map((r) => (
+                      <SelectItem key={r.value} value={r.value}>
+                        {r.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="text-muted-foreground hover:text-destructive"
+                  onClick={() => handleRemove(host)}
+                  aria-label={`Remove ${host.email}`}
+                >
+                  <X className="w-4 h-4" />
+                </Button>
+              </>
+            ) : (
+              <span className="text-sm text-muted-foreground">{hostRoleLabel(host.role)}</span>
+            )}
+          </li>
+        ))}
+      </ul>
+
+      {canManage && (
+        <form onSubmit={handleInvite} className="space-y-2">
+          <div className="flex gap-2">
+            <Input
+              type="email"
+              placeholder="partner@example.com"
+              value={email}
+              onChange={(e) => setEmail(e.target.value)}
+              className="bg-background"
+              disabled={inviting}
+            />
+            <Select value={inviteRole} onValueChange={(value) => setInviteRole(value as HostRole)}>
+              <SelectTrigger className="w-36 bg-background" aria-label="Role">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {assignableRoles.map((r) => (
+                  <SelectItem key={r.value} value={r.value}>
+                    {r.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button type="submit" variant="outline" size="icon" disabled={inviting || !email} aria-label="Send invite">
+              {inviting ? <Loader2 className="w-4 h-4 animate-spin" /> : <Send className="w-4 h-4" />}
+            </Button>
+          </div>
+          <p className="text-xs text-muted-foreground">
+            {HOST_ROLES.find((r) => r.value === inviteRole)?.description}
+          </p>
+        </form>
+      )}
+
+      {role !== "owner" && (
+        <Button
+          variant="ghost"
+          className="text-destructive/70 hover:text-destructive"
+          onClick={() => {
+            const me = hosts.find((h) => h.user_id === userId);
+            if (me) handleRemove(me);
+          }}
+        >
+          Leave this event
+        </Button>
+      )}
+    </div>
+  );
+};
+
+export default EventHosts;
@@ -0,0 +1,17 @@
+import { Leaf } from "lucide-react";
+import { cn } from "@/lib/utils";
+
+interface EventMarkProps {
+  coverUrl: string | null | undefined;
+  className?: string;
+}
+
+// The event's cover as a small round thumbnail, or the leaf until it has one
+const EventMark = ({ coverUrl, className }: EventMarkProps) =>
+  coverUrl ? (
+    <img src={coverUrl} alt="" className={cn("rounded-full object-cover shrink-0", className)} />
+  ) : (
+    <Leaf className={cn("text-primary shrink-0", className)} />
+  );
+
+export default EventMark;
@@ -0,0 +1,273 @@
+import { useState, useEffect, useRef } from "react";
+import { z } from "zod";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle,
+  SheetTrigger,
+} from "@/components/ui/sheet";
+import { useToast } from "@/hooks/use-toast";
+import { ImagePlus, Loader2, Settings } from "lucide-react";
+import CoverCropper from "@/components/CoverCropper";
+import { CoverCrop, removeCover, renderCover, uploadCover } from "@/lib/covers";
+import { displayableImage } from "@/lib/media";
+
+export interface EventSettings {
+  event_name: string | null;
+  couple_name: string;
+  partner_name: string;
+  wedding_date: string;
+  cover_image_url: string | null;
+}
+
+const nameSchema = z.string()
+  .trim()
+  .min(1, "Both names are required")
+  .max(100, "Names must be less than 100 characters");
+
+const detailsSchema = z.object({
+  event_name: z.string()
+    .trim()
+    .max(100, "Event name must be less than 100 characters")
+    .transform((value) => value || null),
+  couple_name: nameSchema,
+  partner_name: nameSchema,
+  wedding_date: z.string().min(1, "Wedding date is required"),
+});
+
+interface EventSettingsSheetProps {
+  eventId: string;
+  settings: EventSettings;
+  onSaved: (settings: EventSettings) => void;
+}
+
+const EventSettingsSheet = ({ eventId, settings, onSaved }: EventSettingsSheetProps) => {
+  const [open, setOpen] = useState(false);
+  const [eventName, setEventName] = useState("");
+  const [coupleName, setCoupleName] = useState("");
+  const [partnerName, setPartnerName] = useState("");
+  const [weddingDate, setWeddingDate] = useState("");
+  // A newly chosen cover, until it is saved
+  const [coverImage, setCoverImage] = useState<Blob | null>(null);
+  const [coverSrc, setCoverSrc] = useState<string | null>(null);
+  const [crop, setCrop] = useState<CoverCrop | null>(null);
+  const [coverRemoved, setCoverRemoved] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    return () => {
+      if (coverSrc) URL.revokeObjectURL(coverSrc);
+    };
+  }, [coverSrc]);
+
+  const chooseCover = (image: Blob | null) => {
+    setCoverImage(image);
+    setCoverSrc(image ? URL.createObjectURL(image) : null);
+    setCrop(null);
+  };
+
+  const handleOpenChange = (next: boolean) => {
+    if (next) {
+      setEventName(settings.event_name ?? "");
+      setCoupleName(settings.couple_name);
+      setPartnerName(settings.partner_name);
+      setWeddingDate(settings.wedding_date);
+      setCoverRemoved(false);
+    }
+    chooseCover(null);
+    setOpen(next);
+  };
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+
+    try {
+      chooseCover(await displayableImage(file));
+    } catch (error) {
+      toast({ title: "Couldn't open photo", description: (error as Error).message, variant: "destructive" });
+    }
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const detailsResult = detailsSchema.safeParse({
+      event_name: eventName,
+      couple_name: coupleName,
+      partner_name: partnerName,
+      wedding_date: weddingDate,
+    });
+    if (!detailsResult.success) {
+      toast({
+        title: "Invalid details",
+        description: detailsResult.error.errors[0].message,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setSaving(true);
+    let uploadedCover: string | null = null;
+    try {
+      if (coverImage && crop) {
+        uploadedCover = await uploadCover(eventId, await renderCover(coverImage, crop));
+      }
+
+      const { event_name, couple_name, partner_name, wedding_date } = detailsResult.data;
+      const changes: EventSettings = {
+        event_name,
+        couple_name,
+        partner_name,
+        wedding_date,
+        cover_image_url: uploadedCover ?? (coverRemoved ? null : settings.cover_image_url),
+      };
+
+      const { error } = await supabase.from("wedding_events").update(changes).eq("id", eventId);
+      if (error) throw error;
+
+      // The old cover is only removed once nothing points at it
+      if (settings.cover_image_url && changes.cover_image_url !== settings.cover_image_url) {
+        removeCover(settings.cover_image_url);
+      }
+
+      onSaved(changes);
+      setOpen(false);
+      toast({ title: "Event updated" });
+    } catch (error) {
+      if (uploadedCover) removeCover(uploadedCover);
+      toast({ title: "Error", description: (error as Error).message, variant: "destructive" });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const currentCover = coverRemoved ? null : settings.cover_image_url;
+
+  return (
+    <Sheet open={open} onOpenChange={handleOpenChange}>
+      <SheetTrigger asChild>
+        <Button variant="ghost" size="icon" aria-label="Event settings">
+          <Settings className="w-5 h-5" />
+        </Button>
+      </SheetTrigger>
+      <SheetContent className="overflow-y-auto">
+        <SheetHeader>
+          <SheetTitle className="font-display">Event settings</SheetTitle>
+          <SheetDescription>
+            Guests see the cover and names when they join and at the top of the feed.
+          </SheetDescription>
+        </SheetHeader>
+
+        <form onSubmit={handleSave} className="mt-4 space-y-4">
+          <div className="space-y-2">
+            <Label>Cover Photo</Label>
+            {coverSrc ? (
+              <CoverCropper key={coverSrc} src={coverSrc} crop={crop} onCropChange={setCrop} disabled={saving} />
+            ) : currentCover ? (
+              <img src={currentCover} alt="Event cover" className="w-full aspect-video object-cover rounded-lg" />
+            ) : (
+              <button
+                type="button"
+                className="w-full aspect-video rounded-lg border-2 border-dashed border-border flex flex-col items-center justify-center gap-2 text-muted-foreground hover:text-foreground transition-colors"
+                onClick={() => fileInputRef.current?.click()}
+                disabled={saving}
+              >
+                <ImagePlus className="w-8 h-8" />
+                <span className="text-sm">Add a cover photo</span>
+              </button>
+            )}
+            <input ref={fileInputRef} type="file" accept="image/*" className="hidden" onChange={handleFileChange} />
+            {(coverSrc || currentCover) && (
+              <div className="flex gap-2">
+                <Button
+                  type="button"
+                  variant="outline"
+                  size="sm"
+                  onClick={() => fileInputRef.current?.click()}
+                  disabled={saving}
+                >
+                  Choose another
+                </Button>
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => {
+                    chooseCover(null);
+                    setCoverRemoved(true);
+                  }}
+                  disabled={saving}
+                >
+                  Remove
+                </Button>
+              </div>
+            )}
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="settingsEventName">Event Name (optional)</Label>
+            <Input
+              id="settingsEventName"
+              placeholder="Rehearsal Dinner"
+              value={eventName}
+              onChange={(e) => setEventName(e.target.value)}
+              maxLength={100}
+              disabled={saving}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="settingsCoupleName">Your Name</Label>
+            <Input
+              id="settingsCoupleName"
+              value={coupleName}
+              onChange={(e) => setCoupleName(e.target.value)}
+              required
+              maxLength={100}
+              disabled={saving}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="settingsPartnerName">Partner's Name</Label>
+            <Input
+              id="settingsPartnerName"
+              value={partnerName}
+              onChange={(e) => setPartnerName(e.target.value)}
+              required
+              maxLength={100}
+              disabled={saving}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="settingsWeddingDate">Wedding Date</Label>
+            <Input
+              id="settingsWeddingDate"
+              type="date"
+              value={weddingDate}
+              onChange={(e) => setWeddingDate(e.target.value)}
+              required
+              disabled={saving}
+            />
+          </div>
+          <Button
+            type="submit"
+            className="w-full gradient-sage text-primary-foreground"
+            disabled={saving || (!!coverSrc && !crop)}
+          >
+            {saving ? <Loader2 className="w-4 h-4 animate-spin" /> : "Save"}
+          </Button>
+        </form>
+      </SheetContent>
+    </Sheet>
+  );
+};
+
+export default EventSettingsSheet;
@@ -0,0 +1,92 @@
+import { useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import { Image as ImageIcon, User, Video, X } from "lucide-react";
+import type { FeedFilterState } from "@/hooks/useFeedFilters";
+
+interface Photographer {
+  guest_id: string;
+  guest_name: string | null;
+  moment_count: number;
+}
+
+interface FeedFiltersProps {
+  eventId: string;
+  state: FeedFilterState;
+  currentGuestId?: string; // Shows "Mine" and leaves the guest out of the picker
+  className?: string;
+}
+
+const EVERYONE = "everyone";
+
+const FeedFilters = ({ eventId, state, currentGuestId, className }: FeedFiltersProps) => {
+  const [photographers, setPhotographers] = useState<Photographer[]>([]);
+  const { mine, guestId, mediaType, isFiltered, setMine, setGuest, setMediaType, clearFilters } = state;
+
+  useEffect(() => {
+    const fetchPhotographers = async () => {
+      const { data, error } = await supabase.rpc("event_photographers", { event_uuid: eventId });
+      if (!error && data) {
+        setPhotographers(data.filter((p) => p.guest_id !== currentGuestId));
+      }
+    };
+
+    fetchPhotographers();
+  }, [eventId, currentGuestId]);
+
+  return (
+    <div className={`flex items-center gap-2 overflow-x-auto hide-scrollbar ${className ?? ""}`}>
+      {currentGuestId && (
+        <Button
+          size="sm"
+          variant={mine ? "default" : "outline"}
+          onClick={() => setMine(!mine)}
+          className="rounded-full shrink-0 h-8"
+        >
+          <User className="w-3.5 h-3.5 mr-1" />
+          Mine
+        </Button>
+      )}
+
+      <Select value={guestId ?? EVERYONE} onValueChange={(value) => setGuest(value === EVERYONE ? null : value)}>
+        <SelectTrigger className="h-8 w-auto min-w-32 rounded-full bg-background text-xs shrink-0">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value={EVERYONE}>Everyone</SelectItem>
+          {photographers.map((photographer) => (
+            <SelectItem key={photographer.guest_id} value={photographer.guest_id}>
+              {photographer.guest_name || "A guest"} ({photographer.moment_count})
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+
+      <ToggleGroup
+        type="single"
+        size="sm"
+        variant="outline"
+        value={mediaType ?? ""}
+        onValueChange={(value) => setMediaType(value === "photo" || value === "video" ? value : null)}
+        className="shrink-0"
+      >
+        <ToggleGroupItem value="photo" aria-label="Photos only" className="h-8 rounded-full">
+          <ImageIcon className="w-3.5 h-3.5" />
+        </ToggleGroupItem>
+        <ToggleGroupItem value="video" aria-label="Videos only" className="h-8 rounded-full">
+          <Video className="w-3.5 h-3.5" />
+        </ToggleGroupItem>
+      </ToggleGroup>
+
+      {isFiltered && (
+        <Button size="icon" variant="ghost" onClick={clearFilters} className="h-8 w-8 shrink-0" aria-label="Clear filters">
+          <X className="w-4 h-4" />
+        </Button>
+      )}
+    </div>
+  );
+};
+
+export default FeedFilters;
@@ -0,0 +1,261 @@
+import { useState } from "react";
+import { formatDistanceToNow } from "date-fns";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle,
+  SheetTrigger,
+} from "@/components/ui/sheet";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { useToast } from "@/hooks/use-toast";
+import { Check, Loader2, MoreVertical, X } from "lucide-react";
+import { type EventGuest, useEventGuests } from "@/hooks/useEventGuests";
+import { guestNameSchema, removeGuest } from "@/lib/guests";
+
+const GRANT_OPTIONS = [1, 5, 10];
+
+const guestLabel = (guest: EventGuest) => guest.guest_name || "Anonymous guest";
+
+interface GuestListProps {
+  eventId: string;
+  momentAllowance: number | null;
+  canManage: boolean;
+  onRemoved: () => void;
+}
+
+const GuestList = ({ eventId, momentAllowance, canManage, onRemoved }: GuestListProps) => {
+  const { guests, refresh } = useEventGuests(eventId);
+  const [renamingId, setRenamingId] = useState<string | null>(null);
+  const [newName, setNewName] = useState("");
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [guestToRemove, setGuestToRemove] = useState<EventGuest | null>(null);
+  const { toast } = useToast();
+
+  const startRename = (guest: EventGuest) => {
+    setNewName(guest.guest_name ?? "");
+    setRenamingId(guest.guest_id);
+  };
+
+  const handleRename = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!renamingId) return;
+
+    const nameResult = guestNameSchema.safeParse(newName);
+    if (!nameResult.success) {
+      toast({ title: "Invalid name", description: nameResult.error.errors[0].message, variant: "destructive" });
+      return;
+    }
+
+    setBusyId(renamingId);
+    const { error } = await supabase.from("guests").update({ guest_name: nameResult.data }).eq("id", renamingId);
+
+    if (error) {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    } else {
+      setRenamingId(null);
+      refresh();
+    }
+    setBusyId(null);
+  };
+
+  const handleGrant = async (guest: EventGuest, extra: number) => {
+    setBusyId(guest.guest_id);
+    const { error } = await supabase.rpc("grant_guest_moments", { guest_uuid: guest.guest_id, extra });
+
+    if (error) {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    } else {
+      toast({
+        title: "Moments granted",
+        description: `${guestLabel(guest)} can share ${extra} more ${extra === 1 ? "moment" : "moments"}.`,
+      });
+      refresh();
+    }
+    setBusyId(null);
+  };
+
+  const handleRemove = async () => {
+    if (!guestToRemove) return;
+
+    setBusyId(guestToRemove.guest_id);
+    try {
+      await removeGuest(guestToRemove.guest_id);
+      toast({ title: "Guest removed", description: `${guestLabel(guestToRemove)} and their moments are gone.` });
+    } catch (error) {
+      toast({ title: "Error", description: (error as Error).message, variant: "destructive" });
+    } finally {
+      // The guest may be gone even when their files weren't
+      refresh();
+      onRemoved();
+      setBusyId(null);
+      setGuestToRemove(null);
+    }
+  };
+
+  if (guests.length === 0) {
+    return <p className="text-sm text-muted-foreground text-center py-8">No guests have joined yet</p>;
+  }
+
+  return (
+    <>
+      <ul className="divide-y divide-border">
+        {guests.map((guest) => (
+          <li key={guest.guest_id} className="flex items-center gap-3 py-3">
+            <div className="flex-1 min-w-0">
+              {renamingId === guest.guest_id ? (
+                <form onSubmit={handleRename} className="flex items-center gap-1">
+                  <Input
+                    value={newName}
+                    onChange={(e) => setNewName(e.target.value)}
+                    placeholder="Anonymous guest"
+                    maxLength={100}
+                    className="h-8 bg-background"
+                    aria-label="Guest name"
+                    autoFocus
+                    disabled={busyId === guest.guest_id}
+                  />
+                  <Button
+                    type="submit"
+                    variant="ghost"
+                    size="icon"
+                    className="h-8 w-8 text-primary shrink-0"
+                    disabled={busyId === guest.guest_id}
+                    aria-label="Save name"
+                  >
+                    <Check className="w-4 h-4" />
+                  </Button>
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="icon"
+                    className="h-8 w-8 text-muted-foreground shrink-0"
+                    onClick={() => setRenamingId(null)}
+                    aria-label="Cancel"
+                  >
+                    <X className="w-4 h-4" />
+                  </Button>
+                </form>
+              ) : (
+                <p className={guest.guest_name ? "text-sm font-medium truncate" : "text-sm italic text-muted-foreground truncate"}>
+                  {guestLabel(guest)}
+                </p>
+              )}
+              <p className="text-xs text-muted-foreground">
+                {guest.moments_shared} shared
+                {momentAllowance !== null && ` · ${guest.photos_remaining} left`}
+                {guest.bonus_moments > 0 && ` (+${guest.bonus_moments} granted)`}
+              </p>
+              <p className="text-xs text-muted-foreground">
+                Joined {formatDistanceToNow(new Date(guest.joined_at), { addSuffix: true })} · Active{" "}
+                {formatDistanceToNow(new Date(guest.last_active_at), { addSuffix: true })}
+              </p>
+            </div>
+            {canManage && (
+              busyId === guest.guest_id && renamingId !== guest.guest_id ? (
+                <Loader2 className="w-4 h-4 animate-spin text-muted-foreground" />
+              ) : (
+                <DropdownMenu>
+                  <DropdownMenuTrigger asChild>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="text-muted-foreground"
+                      aria-label={`Manage ${guestLabel(guest)}`}
+                    >
+                      <MoreVertical className="w-4 h-4" />
+                    </Button>
+                  </DropdownMenuTrigger>
+                  <DropdownMenuContent align="end">
+                    <DropdownMenuItem onSelect={() => startRename(guest)}>Rename</DropdownMenuItem>
+                    {momentAllowance !== null &&
+                      GRANT_OPTIONS.map((extra) => (
+                        <DropdownMenuItem key={extra} onSelect={() => handleGrant(guest, extra)}>
+                          Give {extra} more {extra === 1 ? "moment" : "moments"}
+                        </DropdownMenuItem>
+                      ))}
+                    <DropdownMenuSeparator />
+                    <DropdownMenuItem
+                      className="text-destructive focus:text-destructive"
+                      onSelect={() => setGuestToRemove(guest)}
+                    >
+                      Remove guest
+                    </DropdownMenuItem>
+                  </DropdownMenuContent>
+                </DropdownMenu>
+              )
+            )}
+          </li>
+        ))}
+      </ul>
+
+      <AlertDialog open={!!guestToRemove} onOpenChange={(open) => !open && setGuestToRemove(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Remove {guestToRemove ? guestLabel(guestToRemove) : "guest"}?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Everything they shared, including comments and reactions, will be permanently deleted and they'll be
+              signed out. They can join again with your event code unless you replace it.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={!!busyId}>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={handleRemove}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+              disabled={!!busyId}
+            >
+              {busyId ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : null}
+              Remove Guest
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </>
+  );
+};
+
+interface GuestListSheetProps extends GuestListProps {
+  children: React.ReactNode;
+}
+
+// Everyone who joined, for the couple to keep an eye on. Hosts who manage the
+// event can rename a guest, top up their moments or remove them.
+const GuestListSheet = ({ children, ...listProps }: GuestListSheetProps) => (
+  <Sheet>
+    <SheetTrigger asChild>{children}</SheetTrigger>
+    <SheetContent className="overflow-y-auto">
+      <SheetHeader>
+        <SheetTitle className="font-display">Guests</SheetTitle>
+        <SheetDescription>
+          Changes reach guests' screens right away.
+        </SheetDescription>
+      </SheetHeader>
+      <div className="mt-4">
+        <GuestList {...listProps} />
+      </div>
+    </SheetContent>
+  </Sheet>
+);
+
+export default GuestListSheet;
@@ -0,0 +1,100 @@
+import { useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle,
+  SheetTrigger,
+} from "@/components/ui/sheet";
+import { useToast } from "@/hooks/use-toast";
+import { Loader2, UserRound } from "lucide-react";
+import { guestNameSchema } from "@/lib/guests";
+
+interface GuestProfileSheetProps {
+  guestId: string;
+  guestName: string | null;
+  onSaved: (guestName: string | null) => void;
+}
+
+const GuestProfileSheet = ({ guestId, guestName, onSaved }: GuestProfileSheetProps) => {
+  const [open, setOpen] = useState(false);
+  const [name, setName] = useState(guestName ?? "");
+  const [saving, setSaving] = useState(false);
+  const { toast } = useToast();
+
+  const handleOpenChange = (next: boolean) => {
+    if (next) setName(guestName ?? "");
+    setOpen(next);
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const nameResult = guestNameSchema.safeParse(name);
+    if (!nameResult.success) {
+      toast({
+        title: "Invalid name",
+        description: nameResult.error.errors[0].message,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setSaving(true);
+    const { error } = await supabase
+      .from("guests")
+      .update({ guest_name: nameResult.data })
+      .eq("id", guestId);
+
+    if (error) {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    } else {
+      onSaved(nameResult.data);
+      setOpen(false);
+      toast({ title: "Name updated", description: "Your moments now show your new name." });
+    }
+    setSaving(false);
+  };
+
+  return (
+    <Sheet open={open} onOpenChange={handleOpenChange}>
+      <SheetTrigger asChild>
+        <Button variant="ghost" size="icon" className="h-8 w-8" aria-label="Edit your name">
+          <UserRound className="w-4 h-4" />
+        </Button>
+      </SheetTrigger>
+      <SheetContent side="bottom">
+        <SheetHeader>
+          <SheetTitle className="font-display">Your name</SheetTitle>
+          <SheetDescription>
+            This is how your moments and comments are credited, including the ones you've already shared.
+          </SheetDescription>
+        </SheetHeader>
+
+        <form onSubmit={handleSave} className="mt-4 space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="profileGuestName">Display name</Label>
+            <Input
+              id="profileGuestName"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="Leave blank to stay anonymous"
+              maxLength={100}
+              disabled={saving}
+            />
+          </div>
+          <Button type="submit" className="w-full gradient-sage text-primary-foreground" disabled={saving}>
+            {saving ? <Loader2 className="w-4 h-4 animate-spin" /> : "Save"}
+          </Button>
+        </form>
+      </SheetContent>
+    </Sheet>
+  );
+};
+
+export default GuestProfileSheet;
@@ -0,0 +1,225 @@
+import { useState, useEffect, useCallback } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { useToast } from "@/hooks/use-toast";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Eye, EyeOff, Image as ImageIcon, Loader2, ShieldCheck, Trash2 } from "lucide-react";
+import { storedPaths, withThumbnailUrls } from "@/lib/photoUrls";
+import type { PhotoRow } from "@/hooks/usePhotoPages";
+import { useGuestNames } from "@/hooks/useGuestNames";
+import { type ModerationDecision, reportReasonLabel } from "@/lib/reports";
+
+interface ReportedMoment {
+  photo: PhotoRow & { signedUrl: string | null };
+  reasons: Record<string, number>;
+  reportCount: number;
+}
+
+interface ModerationQueueProps {
+  eventId: string;
+  reportThreshold: number;
+  onModerated?: (decision: ModerationDecision) => void;
+}
+
+// Moments guests have reported that the couple hasn't decided on yet
+const ModerationQueue = ({ eventId, reportThreshold, onModerated }: ModerationQueueProps) => {
+  const [queue, setQueue] = useState<ReportedMoment[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [moderatingId, setModeratingId] = useState<string | null>(null);
+  const [confirmDelete, setConfirmDelete] = useState<ReportedMoment | null>(null);
+  const guestName = useGuestNames(eventId);
+  const { toast } = useToast();
+
+  const fetchQueue = useCallback(async () => {
+    const { data: reports, error } = await supabase
+      .from("photo_reports")
+      .select("photo_id, reason")
+      .eq("wedding_event_id", eventId)
+      .is("resolution", null);
+
+    if (error || !reports) {
+      setLoading(false);
+      return;
+    }
+
+    const reasonsByPhoto = new Map<string, Record<string, number>>();
+    for (const report of reports) {
+      if (!report.photo_id) continue;
+      const reasons = reasonsByPhoto.get(report.photo_id) ?? {};
+      reasons[report.reason] = (reasons[report.reason] ?? 0) + 1;
+      reasonsByPhoto.set(report.photo_id, reasons);
+    }
+
+    const { data: photos } = reasonsByPhoto.size
+      ? await supabase.from("photos").select("*").in("id", [...reasonsByPhoto.keys()])
+      : { data: [] };
+
+    const signed = await withThumbnailUrls(photos ?? []);
+    setQueue(
+      signed
+        .map((photo) => {
+          const reasons = reasonsByPhoto.get(photo.id) ?? {};
+          return { photo, reasons, reportCount: Object.values(reasons).reduce((sum, n) => sum + n, 0) };
+        })
+        .sort((a, b) => b.reportCount - a.reportCount)
+    );
+    setLoading(false);
+  }, [eventId]);
+
+  useEffect(() => {
+    fetchQueue();
+
+    const channel = supabase
+      .channel("moderation-queue")
+      .on(
+        "postgres_changes",
+        { event: "INSERT", schema: "public", table: "photo_reports", filter: `wedding_event_id=eq.${eventId}` },
+        () => fetchQueue()
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [eventId, fetchQueue]);
+
+  const handleModerate = async ({ photo }: ReportedMoment, decision: ModerationDecision) => {
+    setModeratingId(photo.id);
+
+    const { error } = await supabase.rpc("moderate_moment", { photo_uuid: photo.id, decision });
+
+    if (error) {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    } else {
+      setQueue((prev) => prev.filter((item) => item.photo.id !== photo.id));
+      onModerated?.(decision);
+
+      // The row is gone; its files go too
+      const storageError =
+        decision === "delete"
+          ? (await supabase.storage.from("wedding-photos").remove(storedPaths(photo))).error
+          : null;
+
+      if (storageError) {
+        toast({
+          title: "Moment deleted",
+          description: `Some of its files couldn't be removed: ${storageError.message}`,
+          variant: "destructive",
+        });
+      } else {
+        toast({
+          title: decision === "restore" ? "Moment kept" : decision === "hide" ? "Moment hidden" : "Moment deleted",
+        });
+      }
+    }
+    setModeratingId(null);
+  };
+
+  if (loading) {
+    return <Loader2 className="w-5 h-5 text-muted-foreground animate-spin" />;
+  }
+
+  if (queue.length === 0) {
+    return (
+      <p className="text-sm text-muted-foreground flex items-center gap-2">
+        <ShieldCheck className="w-4 h-4 text-primary" />
+        No reported moments to review
+      </p>
+    );
+  }
+
+  return (
+    <>
+      <ul className="space-y-4">
+        {queue.map((item) => {
+          const { photo, reasons, reportCount } = item;
+          const sharedBy = guestName(photo.guest_id, photo.guest_name);
+          const busy = moderatingId === photo.id;
+
+          return (
+            <li key={photo.id} className="flex gap-3">
+              <div className="w-20 h-20 rounded-lg overflow-hidden bg-muted shrink-0">
+                {photo.signedUrl ? (
+                  <img
+                    src={photo.signedUrl}
+                    alt={sharedBy ? `Photo by ${sharedBy}` : "Reported moment"}
+                    className="w-full h-full object-cover"
+                  />
+                ) : (
+                  <div className="w-full h-full flex items-center justify-center">
+                    <ImageIcon className="w-6 h-6 text-muted-foreground" />
+                  </div>
+                )}
+              </div>
+              <div className="flex-1 min-w-0 space-y-2">
+                <div className="flex items-center gap-2 flex-wrap">
+                  <span className="text-sm font-medium truncate">{sharedBy ?? "A guest"}</span>
+                  <Badge variant={photo.status === "flagged" ? "destructive" : "outline"}>
+                    {photo.status === "flagged" ? "Hidden until you decide" : `${reportCount} of ${reportThreshold} reports`}
+                  </Badge>
+                </div>
+                <p className="text-xs text-muted-foreground">
+                  {Object.entries(reasons)
+                    .map(([reason, count]) => (count > 1 ? `${reportReasonLabel(reason)} (${count})` : reportReasonLabel(reason)))
+                    .join(" · ")}
+                </p>
+                <div className="flex gap-2">
+                  <Button size="sm" variant="outline" onClick={() => handleModerate(item, "restore")} disabled={busy}>
+                    <Eye className="mr-1.5 h-3.5 w-3.5" />
+                    Keep
+                  </Button>
+                  <Button size="sm" variant="outline" onClick={() => handleModerate(item, "hide")} disabled={busy}>
+                    <EyeOff className="mr-1.5 h-3.5 w-3.5" />
+                    Hide
+                  </Button>
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={() => setConfirmDelete(item)}
+                    disabled={busy}
+                    className="border-destructive/30 text-destructive hover:bg-destructive/10"
+                  >
+                    {busy ? <Loader2 className="mr-1.5 h-3.5 w-3.5 animate-spin" /> : <Trash2 className="mr-1.5 h-3.5 w-3.5" />}
+                    Delete
+                  </Button>
+                </div>
+              </div>
+            </li>
+          );
+        })}
+      </ul>
+
+      <AlertDialog open={!!confirmDelete} onOpenChange={() => setConfirmDelete(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete this moment?</AlertDialogTitle>
+            <AlertDialogDescription>
+              It will be removed for everyone, including the guest who shared it. This cannot be undone.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => confirmDelete && handleModerate(confirmDelete, "delete")}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </>
+  );
+};
+
+export default ModerationQueue;
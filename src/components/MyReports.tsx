@@ -0,0 +1,64 @@
+import { formatDistanceToNow } from "date-fns";
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle,
+  SheetTrigger,
+} from "@/components/ui/sheet";
+import { Flag } from "lucide-react";
+import type { MomentReport } from "@/hooks/useMyReports";
+import { reportOutcomeLabel, reportReasonLabel } from "@/lib/reports";
+
+interface MyReportsProps {
+  reports: MomentReport[];
+  className?: string;
+}
+
+const MyReports = ({ reports, className }: MyReportsProps) => {
+  if (reports.length === 0) return null;
+
+  const waiting = reports.filter((r) => r.resolution === null).length;
+
+  return (
+    <Sheet>
+      <SheetTrigger asChild>
+        <button className={`photo-counter text-xs ${className ?? ""}`}>
+          <Flag className="w-3 h-3" />
+          <span>
+            {waiting > 0 ? `${waiting} report${waiting === 1 ? "" : "s"} under review` : "Your reports"}
+          </span>
+        </button>
+      </SheetTrigger>
+      <SheetContent side="bottom" className="max-h-[80vh] overflow-y-auto">
+        <SheetHeader>
+          <SheetTitle className="font-display">Your reports</SheetTitle>
+          <SheetDescription>
+            Moments you reported and what the couple decided. Reports are never shown to the guest who shared the moment.
+          </SheetDescription>
+        </SheetHeader>
+
+        <ul className="mt-4 space-y-3">
+          {reports.map((report) => (
+            <li key={report.id} className="flex items-center justify-between gap-3">
+              <div className="min-w-0">
+                <p className="text-sm truncate">{reportReasonLabel(report.reason)}</p>
+                <p className="text-xs text-muted-foreground">
+                  Reported {formatDistanceToNow(new Date(report.created_at), { addSuffix: true })}
+                </p>
+              </div>
+              <span
+                className={`text-xs shrink-0 ${report.resolution === null ? "text-muted-foreground" : "text-primary"}`}
+              >
+                {reportOutcomeLabel(report.resolution)}
+              </span>
+            </li>
+          ))}
+        </ul>
+      </SheetContent>
+    </Sheet>
+  );
+};
+
+export default MyReports;
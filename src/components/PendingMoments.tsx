@@ -0,0 +1,104 @@
+import { useEffect, useMemo } from "react";
+import { formatDistanceToNow } from "date-fns";
+import { Button } from "@/components/ui/button";
+import { Progress } from "@/components/ui/progress";
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle,
+  SheetTrigger,
+} from "@/components/ui/sheet";
+import { CloudOff, Loader2, RefreshCw, X } from "lucide-react";
+import type { QueuedMoment } from "@/lib/momentQueue";
+
+interface PendingMomentsProps {
+  pending: QueuedMoment[];
+  sendingId: string | null;
+  progress: Record<string, number>;
+  onCancel: (id: string) => void;
+  onRetry: () => void;
+  className?: string;
+}
+
+const PendingMoments = ({ pending, sendingId, progress, onCancel, onRetry, className }: PendingMomentsProps) => {
+  // Object URLs for the queued thumbnails (or files), revoked when the queue changes
+  const previews = useMemo(
+    () => Object.fromEntries(pending.map((m) => [m.id, URL.createObjectURL(m.thumbnail ?? m.file)])),
+    [pending]
+  );
+
+  useEffect(() => {
+    return () => Object.values(previews).forEach((url) => URL.revokeObjectURL(url));
+  }, [previews]);
+
+  if (pending.length === 0) return null;
+
+  return (
+    <Sheet>
+      <SheetTrigger asChild>
+        <button className={`photo-counter text-xs ${className ?? ""}`}>
+          {sendingId ? <Loader2 className="w-3 h-3 animate-spin" /> : <CloudOff className="w-3 h-3" />}
+          <span>
+            {pending.length} moment{pending.length === 1 ? "" : "s"} waiting to send
+          </span>
+        </button>
+      </SheetTrigger>
+      <SheetContent side="bottom" className="max-h-[80vh] overflow-y-auto">
+        <SheetHeader>
+          <SheetTitle className="font-display">Waiting to send</SheetTitle>
+          <SheetDescription>
+            These moments are saved on your phone and will send automatically when you're back online.
+          </SheetDescription>
+        </SheetHeader>
+
+        <ul className="mt-4 space-y-3">
+          {pending.map((moment) => {
+            const isSending = sendingId === moment.id;
+
+            return (
+              <li key={moment.id} className="flex items-center gap-3">
+                <div className="w-14 h-14 rounded-lg overflow-hidden bg-muted shrink-0">
+                  {moment.contentType.startsWith("video/") && !moment.thumbnail ? (
+                    <video src={previews[moment.id]} className="w-full h-full object-cover" muted playsInline />
+                  ) : (
+                    <img src={previews[moment.id]} alt="Queued moment" className="w-full h-full object-cover" />
+                  )}
+                </div>
+                <div className="flex-1 min-w-0">
+                  <p className="text-sm truncate">{moment.caption || "No caption"}</p>
+                  {isSending && progress[moment.id] !== undefined && (
+                    <Progress value={Math.round(progress[moment.id] * 100)} className="h-1.5 my-1" />
+                  )}
+                  <p className="text-xs text-muted-foreground">
+                    {isSending
+                      ? `Sending... ${Math.round((progress[moment.id] ?? 0) * 100)}%`
+                      : moment.attempts > 0
+                        ? `Retrying ${formatDistanceToNow(new Date(Math.max(moment.nextAttemptAt, Date.now())), { addSuffix: true })}`
+                        : "Waiting for connection"}
+                  </p>
+                </div>
+                <Button
+                  size="icon"
+                  variant="ghost"
+                  onClick={() => onCancel(moment.id)}
+                  aria-label="Cancel queued moment"
+                >
+                  <X className="w-4 h-4" />
+                </Button>
+              </li>
+            );
+          })}
+        </ul>
+
+        <Button variant="outline" className="w-full mt-6" onClick={onRetry} disabled={!!sendingId}>
+          <RefreshCw className="mr-2 h-4 w-4" />
+          Try again now
+        </Button>
+      </SheetContent>
+    </Sheet>
+  );
+};
+
+export default PendingMoments;
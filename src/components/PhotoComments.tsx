@@ -0,0 +1,135 @@
+import { useState } from "react";
+import { formatDistanceToNow } from "date-fns";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle,
+  SheetTrigger,
+} from "@/components/ui/sheet";
+import { useToast } from "@/hooks/use-toast";
+import { Loader2, MessageCircle, Send, Trash2 } from "lucide-react";
+import { MAX_COMMENT_LENGTH, type PhotoComment } from "@/hooks/usePhotoComments";
+
+interface PhotoCommentsProps {
+  comments: PhotoComment[];
+  canDelete: (comment: PhotoComment) => boolean;
+  onDelete: (commentId: string) => Promise<{ message: string } | null>;
+  onAdd?: (body: string) => Promise<{ message: string } | null>; // Omit when the viewer can't comment
+  triggerClassName?: string;
+}
+
+const PhotoComments = ({ comments, canDelete, onDelete, onAdd, triggerClassName }: PhotoCommentsProps) => {
+  const [draft, setDraft] = useState("");
+  const [posting, setPosting] = useState(false);
+  const [deletingId, setDeletingId] = useState<string | null>(null);
+  const { toast } = useToast();
+
+  const handlePost = async () => {
+    if (!onAdd || !draft.trim()) return;
+    setPosting(true);
+
+    const error = await onAdd(draft);
+    if (error) {
+      toast({ title: "Failed to post comment", description: error.message, variant: "destructive" });
+    } else {
+      setDraft("");
+    }
+    setPosting(false);
+  };
+
+  const handleDelete = async (commentId: string) => {
+    setDeletingId(commentId);
+
+    const error = await onDelete(commentId);
+    if (error) {
+      toast({ title: "Failed to delete comment", description: error.message, variant: "destructive" });
+    }
+    setDeletingId(null);
+  };
+
+  return (
+    <Sheet>
+      <SheetTrigger asChild>
+        <button
+          type="button"
+          className={`flex items-center gap-1.5 text-sm ${triggerClassName ?? ""}`}
+          aria-label="Open comments"
+        >
+          <MessageCircle className="w-4 h-4" />
+          <span>{comments.length > 0 ? comments.length : "Comment"}</span>
+        </button>
+      </SheetTrigger>
+      <SheetContent side="bottom" className="max-h-[80vh] flex flex-col">
+        <SheetHeader>
+          <SheetTitle className="font-display">Comments</SheetTitle>
+          <SheetDescription>
+            {comments.length === 0 ? "No comments yet." : `${comments.length} comment${comments.length === 1 ? "" : "s"}`}
+          </SheetDescription>
+        </SheetHeader>
+
+        <ul className="mt-4 space-y-4 overflow-y-auto flex-1">
+          {comments.map((comment) => (
+            <li key={comment.id} className="flex items-start gap-3">
+              <div className="flex-1 min-w-0">
+                <p className="text-sm">
+                  <span className="font-semibold">{comment.guest_name || "A guest"}</span>
+                  <span className="text-muted-foreground text-xs">
+                    {" "}· {formatDistanceToNow(new Date(comment.created_at), { addSuffix: true })}
+                  </span>
+                </p>
+                <p className="text-sm text-foreground whitespace-pre-wrap break-words">{comment.body}</p>
+              </div>
+              {canDelete(comment) && (
+                <Button
+                  size="icon"
+                  variant="ghost"
+                  onClick={() => handleDelete(comment.id)}
+                  disabled={deletingId === comment.id}
+                  className="h-8 w-8 shrink-0"
+                  aria-label="Delete comment"
+                >
+                  {deletingId === comment.id ? (
+                    <Loader2 className="w-3.5 h-3.5 animate-spin" />
+                  ) : (
+                    <Trash2 className="w-3.5 h-3.5" />
+                  )}
+                </Button>
+              )}
+            </li>
+          ))}
+        </ul>
+
+        {onAdd && (
+          <div className="mt-4 space-y-2">
+            <Textarea
+              value={draft}
+              onChange={(e) => {
+                if (e.target.value.length <= MAX_COMMENT_LENGTH) {
+                  setDraft(e.target.value);
+                }
+              }}
+              placeholder="Add a comment..."
+              className="resize-none text-sm"
+              rows={2}
+              disabled={posting}
+            />
+            <div className="flex items-center justify-between">
+              <span className="text-muted-foreground text-xs">
+                {draft.length}/{MAX_COMMENT_LENGTH}
+              </span>
+              <Button size="sm" onClick={handlePost} disabled={posting || !draft.trim()}>
+                {posting ? <Loader2 className="w-4 h-4 animate-spin" /> : <Send className="w-4 h-4" />}
+              </Button>
+            </div>
+          </div>
+        )}
+      </SheetContent>
+    </Sheet>
+  );
+};
+
+export default PhotoComments;
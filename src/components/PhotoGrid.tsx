@@ -1,68 +1,46 @@
-import { useState, useEffect, useCallback } from "react";
+import { useEffect, useMemo, useRef } from "react";
 import { supabase } from "@/integrations/supabase/client";
-import { Image as ImageIcon } from "lucide-react";
+import { EyeOff, Image as ImageIcon } from "lucide-react";
+import { withThumbnailUrls } from "@/lib/photoUrls";
+import { PhotoRow, usePhotoPages } from "@/hooks/usePhotoPages";
+import { topReactions } from "@/lib/reactions";
+import { hiddenMomentLabel, isHiddenFromGuests } from "@/lib/moments";
+import { usePhotoReactions } from "@/hooks/usePhotoReactions";
+import { useGuestNames } from "@/hooks/useGuestNames";
 
-interface Photo {
-  id: string;
-  image_url: string;
-  guest_name: string | null;
-  captured_at: string;
+interface PhotoWithSignedUrl extends PhotoRow {
+  signedUrl: string | null;
 }
 
-interface PhotoWithSignedUrl extends Photo {
-  signedUrl?: string;
-}
+const signGridPage = (photos: PhotoRow[]): Promise<PhotoWithSignedUrl[]> => withThumbnailUrls(photos);
 
 interface PhotoGridProps {
   eventId: string;
 }
 
 const PhotoGrid = ({ eventId }: PhotoGridProps) => {
-  const [photos, setPhotos] = useState<PhotoWithSignedUrl[]>([]);
-  const [loading, setLoading] = useState(true);
-
-  // Generate signed URL for a photo path
-  const getSignedUrl = useCallback(async (path: string): Promise<string | null> => {
-    // Check if it's already a full URL (legacy data)
-    if (path.startsWith('http')) {
-      return path;
-    }
-    
-    const { data, error } = await supabase.storage
-      .from("wedding-photos")
-      .createSignedUrl(path, 3600); // 1 hour expiry
-    
-    if (error) {
-      console.error("Error creating signed URL:", error);
-      return null;
-    }
-    return data.signedUrl;
-  }, []);
+  const { photos, loading, hasMore, loadMore, addPhoto, removePhoto, syncPhoto } = usePhotoPages(eventId, signGridPage);
+  const photoIds = useMemo(() => photos.map((photo) => photo.id), [photos]);
+  const { getSummary, handleChange: handleReactionChange } = usePhotoReactions(eventId, photoIds);
+  const guestName = useGuestNames(eventId);
+  const sentinelRef = useRef<HTMLDivElement>(null);
 
-  // Fetch photos and generate signed URLs
-  const fetchPhotos = useCallback(async () => {
-    const { data, error } = await supabase
-      .from("photos")
-      .select("*")
-      .eq("wedding_event_id", eventId)
-      .order("captured_at", { ascending: false });
+  // Load the next page as the bottom of the grid scrolls into view
+  useEffect(() => {
+    const sentinel = sentinelRef.current;
+    if (!sentinel || !hasMore) return;
 
-    if (!error && data) {
-      // Generate signed URLs for all photos
-      const photosWithUrls = await Promise.all(
-        data.map(async (photo) => ({
-          ...photo,
-          signedUrl: await getSignedUrl(photo.image_url),
-        }))
-      );
-      setPhotos(photosWithUrls);
-    }
-    setLoading(false);
-  }, [eventId, getSignedUrl]);
+    const observer = new IntersectionObserver(
+      ([entry]) => {
+        if (entry.isIntersecting) loadMore();
+      },
+      { rootMargin: "400px" }
+    );
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [hasMore, loadMore, photos.length]);
 
   useEffect(() => {
-    fetchPhotos();
-    
     // Subscribe to realtime updates
     const channel = supabase
       .channel("photos-grid")
@@ -74,18 +52,63 @@ const PhotoGrid = ({ eventId }: PhotoGridProps) => {
           table: "photos",
           filter: `wedding_event_id=eq.${eventId}`,
         },
-        async (payload) => {
-          const newPhoto = payload.new as Photo;
-          const signedUrl = await getSignedUrl(newPhoto.image_url);
-          setPhotos((prev) => [{ ...newPhoto, signedUrl }, ...prev]);
+        (payload) => addPhoto(payload.new as PhotoRow)
+      )
+      .on(
+        "postgres_changes",
+        {
+          event: "DELETE",
+          schema: "public",
+          table: "photos",
+          filter: `wedding_event_id=eq.${eventId}`,
+        },
+        (payload) => removePhoto(payload.old.id)
+      )
+      .on(
+        "postgres_changes",
+        {
+          event: "UPDATE",
+          schema: "public",
+          table: "photos",
+          filter: `wedding_event_id=eq.${eventId}`,
+        },
+        (payload) => {
+          const updatedPhoto = payload.new as PhotoRow;
+          syncPhoto(updatedPhoto, { status: updatedPhoto.status });
         }
       )
+      .on(
+        "postgres_changes",
+        {
+          event: "INSERT",
+          schema: "public",
+          table: "photo_reactions",
+          filter: `wedding_event_id=eq.${eventId}`,
+        },
+        handleReactionChange
+      )
+      .on(
+        "postgres_changes",
+        {
+          event: "UPDATE",
+          schema: "public",
+          table: "photo_reactions",
+          filter: `wedding_event_id=eq.${eventId}`,
+        },
+        handleReactionChange
+      )
+      .on(
+        // Deletes can't be filtered; unknown ids are ignored
+        "postgres_changes",
+        { event: "DELETE", schema: "public", table: "photo_reactions" },
+        handleReactionChange
+      )
       .subscribe();
 
     return () => {
       supabase.removeChannel(channel);
     };
-  }, [eventId, fetchPhotos, getSignedUrl]);
+  }, [eventId, addPhoto, removePhoto, syncPhoto, handleReactionChange]);
 
   if (loading) {
     return (
@@ -114,29 +137,47 @@ const PhotoGrid = ({ eventId }: PhotoGridProps) => {
 
   return (
     <div className="grid grid-cols-3 gap-2">
-      {photos.map((photo) => (
-        <div
-          key={photo.id}
-          className="aspect-square rounded-lg overflow-hidden relative group"
-        >
-          {photo.signedUrl ? (
-            <img
-              src={photo.signedUrl}
-              alt={photo.guest_name ? `Photo by ${photo.guest_name}` : "Wedding photo"}
-              className="w-full h-full object-cover transition-transform group-hover:scale-105"
-            />
-          ) : (
-            <div className="w-full h-full bg-muted flex items-center justify-center">
-              <ImageIcon className="w-8 h-8 text-muted-foreground" />
-            </div>
-          )}
-          {photo.guest_name && (
-            <div className="absolute bottom-0 left-0 right-0 bg-gradient-to-t from-black/60 to-transparent p-2 opacity-0 group-hover:opacity-100 transition-opacity">
-              <p className="text-white text-xs truncate">{photo.guest_name}</p>
-            </div>
-          )}
-        </div>
-      ))}
+      {photos.map((photo) => {
+        const reactions = getSummary(photo.id);
+        const sharedBy = guestName(photo.guest_id, photo.guest_name);
+
+        return (
+          <div
+            key={photo.id}
+            className="aspect-square rounded-lg overflow-hidden relative group"
+          >
+            {photo.signedUrl ? (
+              <img
+                src={photo.signedUrl}
+                alt={sharedBy ? `Photo by ${sharedBy}` : "Wedding photo"}
+                loading="lazy"
+                className="w-full h-full object-cover transition-transform group-hover:scale-105"
+              />
+            ) : (
+              <div className="w-full h-full bg-muted flex items-center justify-center">
+                <ImageIcon className="w-8 h-8 text-muted-foreground" />
+              </div>
+            )}
+            {sharedBy && (
+              <div className="absolute bottom-0 left-0 right-0 bg-gradient-to-t from-black/60 to-transparent p-2 opacity-0 group-hover:opacity-100 transition-opacity">
+                <p className="text-white text-xs truncate">{sharedBy}</p>
+              </div>
+            )}
+            {isHiddenFromGuests(photo.status) && (
+              <div className="absolute top-1.5 left-1.5 bg-black/50 rounded-full p-1" title={hiddenMomentLabel(photo.status)}>
+                <EyeOff className="w-3 h-3 text-white" />
+              </div>
+            )}
+            {reactions.total > 0 && (
+              <div className="absolute top-1.5 right-1.5 bg-black/50 rounded-full px-1.5 py-0.5 flex items-center gap-0.5">
+                <span className="text-xs">{topReactions(reactions).join("")}</span>
+                <span className="text-white text-xs">{reactions.total}</span>
+              </div>
+            )}
+          </div>
+        );
+      })}
+      {hasMore && <div ref={sentinelRef} className="col-span-3 h-px" />}
     </div>
   );
 };
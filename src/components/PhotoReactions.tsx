@@ -0,0 +1,48 @@
+import { REACTION_EMOJIS, ReactionEmoji, ReactionSummary } from "@/lib/reactions";
+
+interface PhotoReactionsProps {
+  summary: ReactionSummary;
+  onReact?: (emoji: ReactionEmoji) => void; // Omit for a read-only row of counts
+  className?: string;
+}
+
+const PhotoReactions = ({ summary, onReact, className = "" }: PhotoReactionsProps) => {
+  // Read-only rows only list emojis someone has used
+  const emojis = onReact ? REACTION_EMOJIS : REACTION_EMOJIS.filter((emoji) => summary.counts[emoji]);
+  if (emojis.length === 0) return null;
+
+  return (
+    <div className={`flex flex-wrap gap-1.5 ${className}`}>
+      {emojis.map((emoji) => {
+        const count = summary.counts[emoji] ?? 0;
+        const isMine = summary.mine === emoji;
+
+        return onReact ? (
+          <button
+            key={emoji}
+            type="button"
+            onClick={() => onReact(emoji)}
+            aria-pressed={isMine}
+            aria-label={isMine ? `Remove your ${emoji} reaction` : `React with ${emoji}`}
+            className={`flex items-center gap-1 rounded-full border px-2.5 py-1 text-sm transition-colors ${
+              isMine ? "border-primary bg-primary/10" : "border-border hover:bg-muted"
+            }`}
+          >
+            <span>{emoji}</span>
+            {count > 0 && <span className="text-xs text-muted-foreground">{count}</span>}
+          </button>
+        ) : (
+          <span
+            key={emoji}
+            className="flex items-center gap-1 rounded-full bg-black/40 px-2.5 py-1 text-sm text-white"
+          >
+            <span>{emoji}</span>
+            <span className="text-xs">{count}</span>
+          </span>
+        );
+      })}
+    </div>
+  );
+};
+
+export default PhotoReactions;
@@ -1,7 +1,7 @@
-import { useState, useEffect, useRef, useCallback } from "react";
+import { useState, useEffect, useMemo } from "react";
 import { supabase } from "@/integrations/supabase/client";
 import { formatDistanceToNow } from "date-fns";
-import { Image as ImageIcon, Trash2, Edit2, X, Check, Loader2 } from "lucide-react";
+import { Image as ImageIcon, Trash2, Edit2, X, Check, Loader2, Bookmark, Flag, EyeOff, Hourglass } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Textarea } from "@/components/ui/textarea";
 import { useToast } from "@/hooks/use-toast";
@@ -15,114 +15,131 @@ import {
   AlertDialogHeader,
   AlertDialogTitle,
 } from "@/components/ui/alert-dialog";
+import { isVideoPath, storedPaths, withFeedUrls } from "@/lib/photoUrls";
+import { PhotoFilters, PhotoRow, usePhotoPages } from "@/hooks/usePhotoPages";
+import { useWindowedFeed } from "@/hooks/useWindowedFeed";
+import { useGuestNames } from "@/hooks/useGuestNames";
+import { usePhotoFavorites } from "@/hooks/usePhotoFavorites";
+import { usePhotoReactions } from "@/hooks/usePhotoReactions";
+import PhotoReactions from "@/components/PhotoReactions";
+import { usePhotoComments } from "@/hooks/usePhotoComments";
+import PhotoComments from "@/components/PhotoComments";
+import ReportMomentDialog from "@/components/ReportMomentDialog";
+import { hiddenMomentLabel, isHiddenFromGuests } from "@/lib/moments";
 
-interface Photo {
-  id: string;
-  image_url: string;
-  guest_name: string | null;
-  guest_id: string;
-  captured_at: string;
-  caption: string | null;
+interface PhotoWithSignedUrl extends PhotoRow {
+  signedUrl: string | null;
+  posterUrl: string | null;
+  loaded: boolean;
 }
 
-interface PhotoWithSignedUrl extends Photo {
-  signedUrl?: string;
-  loaded?: boolean;
-}
+const signFeedPage = async (photos: PhotoRow[]): Promise<PhotoWithSignedUrl[]> =>
+  (await withFeedUrls(photos)).map((photo) => ({ ...photo, loaded: false }));
 
 interface PhotoSwipeFeedProps {
   eventId: string;
   currentGuestId?: string;
+  currentGuestName?: string | null; // Shown on the guest's own moments right after a rename
+  filters?: PhotoFilters;
   onPhotoDeleted?: () => void;
+  onMomentReported?: () => void;
 }
 
-const PhotoSwipeFeed = ({ eventId, currentGuestId, onPhotoDeleted }: PhotoSwipeFeedProps) => {
-  const [photos, setPhotos] = useState<PhotoWithSignedUrl[]>([]);
-  const [loading, setLoading] = useState(true);
+const PhotoSwipeFeed = ({ eventId, currentGuestId, currentGuestName, filters, onPhotoDeleted, onMomentReported }: PhotoSwipeFeedProps) => {
+  const { photos, total, loading, hasMore, loadMore, addPhoto, removePhoto, updatePhoto, syncPhoto } = usePhotoPages(
+    eventId,
+    signFeedPage,
+    filters
+  );
   const [editingPhotoId, setEditingPhotoId] = useState<string | null>(null);
   const [editCaption, setEditCaption] = useState("");
   const [saving, setSaving] = useState(false);
   const [deletePhotoId, setDeletePhotoId] = useState<string | null>(null);
   const [deleting, setDeleting] = useState(false);
-  const containerRef = useRef<HTMLDivElement>(null);
+  const [reportPhotoId, setReportPhotoId] = useState<string | null>(null);
+  const { isFavorite, toggleFavorite } = usePhotoFavorites(eventId, currentGuestId);
+  const guestName = useGuestNames(
+    eventId,
+    currentGuestId && currentGuestName !== undefined ? { id: currentGuestId, name: currentGuestName } : undefined
+  );
+  const { containerRef, currentIndex, start, end, topSpacer, bottomSpacer, handleScroll } = useWindowedFeed(photos);
   const { toast } = useToast();
+  const photoIds = useMemo(() => photos.map((photo) => photo.id), [photos]);
+  const { getSummary, toggleReaction, handleChange: handleReactionChange } = usePhotoReactions(eventId, photoIds, currentGuestId);
+  const visibleIds = useMemo(() => photos.slice(start, end).map((photo) => photo.id), [photos, start, end]);
+  const { getThread, addComment, deleteComment, handleChange: handleCommentChange } = usePhotoComments(
+    eventId,
+    visibleIds,
+    currentGuestId
+  );
 
   const MAX_CAPTION_LENGTH = 150;
 
-  const getSignedUrl = useCallback(async (path: string): Promise<string | null> => {
-    if (path.startsWith('http')) return path;
-    
-    const { data, error } = await supabase.storage
-      .from("wedding-photos")
-      .createSignedUrl(path, 3600);
-    
-    if (error) {
-      console.error("Error creating signed URL:", error);
-      return null;
-    }
-    return data.signedUrl;
-  }, []);
-
-  const fetchPhotos = useCallback(async () => {
-    const { data, error } = await supabase
-      .from("photos")
-      .select("*")
-      .eq("wedding_event_id", eventId)
-      .order("captured_at", { ascending: false });
-
-    if (!error && data) {
-      const photosWithUrls = await Promise.all(
-        data.map(async (photo) => ({
-          ...photo,
-          signedUrl: await getSignedUrl(photo.image_url),
-          loaded: false,
-        }))
-      );
-      setPhotos(photosWithUrls);
+  // Fetch the next page a couple of cards before the guest runs out
+  useEffect(() => {
+    if (hasMore && currentIndex >= photos.length - 3) {
+      loadMore();
     }
-    setLoading(false);
-  }, [eventId, getSignedUrl]);
+  }, [currentIndex, photos.length, hasMore, loadMore]);
 
   useEffect(() => {
-    fetchPhotos();
-
     const channel = supabase
       .channel("photos-feed")
       .on(
         "postgres_changes",
         { event: "INSERT", schema: "public", table: "photos", filter: `wedding_event_id=eq.${eventId}` },
-        async (payload) => {
-          const newPhoto = payload.new as Photo;
-          const signedUrl = await getSignedUrl(newPhoto.image_url);
-          setPhotos((prev) => [{ ...newPhoto, signedUrl, loaded: false }, ...prev]);
-        }
+        (payload) => addPhoto(payload.new as PhotoRow)
       )
       .on(
         "postgres_changes",
         { event: "DELETE", schema: "public", table: "photos", filter: `wedding_event_id=eq.${eventId}` },
-        (payload) => {
-          const deletedPhoto = payload.old as Photo;
-          setPhotos((prev) => prev.filter((p) => p.id !== deletedPhoto.id));
-        }
+        (payload) => removePhoto(payload.old.id)
       )
       .on(
         "postgres_changes",
         { event: "UPDATE", schema: "public", table: "photos", filter: `wedding_event_id=eq.${eventId}` },
         (payload) => {
-          const updatedPhoto = payload.new as Photo;
-          setPhotos((prev) =>
-            prev.map((p) =>
-              p.id === updatedPhoto.id ? { ...p, caption: updatedPhoto.caption } : p
-            )
-          );
+          const updatedPhoto = payload.new as PhotoRow;
+          // Only its owner keeps a moment that was just hidden, with a label
+          if (isHiddenFromGuests(updatedPhoto.status) && updatedPhoto.guest_id !== currentGuestId) {
+            removePhoto(updatedPhoto.id);
+            return;
+          }
+          syncPhoto(updatedPhoto, { caption: updatedPhoto.caption, status: updatedPhoto.status });
         }
       )
+      .on(
+        "postgres_changes",
+        { event: "INSERT", schema: "public", table: "photo_reactions", filter: `wedding_event_id=eq.${eventId}` },
+        handleReactionChange
+      )
+      .on(
+        "postgres_changes",
+        { event: "UPDATE", schema: "public", table: "photo_reactions", filter: `wedding_event_id=eq.${eventId}` },
+        handleReactionChange
+      )
+      .on(
+        // Deletes can't be filtered; unknown ids are ignored
+        "postgres_changes",
+        { event: "DELETE", schema: "public", table: "photo_reactions" },
+        handleReactionChange
+      )
+      .on(
+        "postgres_changes",
+        { event: "INSERT", schema: "public", table: "photo_comments", filter: `wedding_event_id=eq.${eventId}` },
+        handleCommentChange
+      )
+      .on(
+        "postgres_changes",
+        { event: "DELETE", schema: "public", table: "photo_comments" },
+        handleCommentChange
+      )
       .subscribe();
 
     return () => {
       supabase.removeChannel(channel);
     };
-  }, [eventId, fetchPhotos, getSignedUrl]);
+  }, [eventId, currentGuestId, addPhoto, removePhoto, syncPhoto, handleReactionChange, handleCommentChange]);
 
   const handleEditCaption = (photo: PhotoWithSignedUrl) => {
     setEditingPhotoId(photo.id);
@@ -162,20 +179,13 @@ const PhotoSwipeFeed = ({ eventId, currentGuestId, onPhotoDeleted }: PhotoSwipeF
     }
 
     try {
-      await supabase.storage.from("wedding-photos").remove([photoToDelete.image_url]);
-      const { error: dbError } = await supabase.from("photos").delete().eq("id", deletePhotoId);
+      // Deletes the row and restores the credit server-side. The files go only
+      // once it's gone, so a failed delete never leaves a moment without them.
+      const { error: dbError } = await supabase.rpc("delete_moment", { photo_uuid: deletePhotoId });
       if (dbError) throw dbError;
-
-      const { data: guestData, error: guestFetchError } = await supabase
-        .from("guests")
-        .select("photos_remaining")
-        .eq("id", currentGuestId)
-        .single();
-
-      if (!guestFetchError && guestData) {
-        const newRemaining = Math.min(guestData.photos_remaining + 1, 20);
-        await supabase.from("guests").update({ photos_remaining: newRemaining }).eq("id", currentGuestId);
-      }
+      await supabase.storage
+        .from("wedding-photos")
+        .remove(storedPaths(photoToDelete));
 
       toast({ title: "Photo deleted", description: "Your photo credit has been restored." });
       onPhotoDeleted?.();
@@ -187,10 +197,19 @@ const PhotoSwipeFeed = ({ eventId, currentGuestId, onPhotoDeleted }: PhotoSwipeF
     setDeletePhotoId(null);
   };
 
+  const handleToggleFavorite = async (photoId: string) => {
+    const saving = !isFavorite(photoId);
+    const error = await toggleFavorite(photoId);
+
+    if (error) {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    } else if (saving) {
+      toast({ title: "Saved to your album" });
+    }
+  };
+
   const handleImageLoad = (photoId: string) => {
-    setPhotos((prev) =>
-      prev.map((p) => (p.id === photoId ? { ...p, loaded: true } : p))
-    );
+    updatePhoto(photoId, { loaded: true });
   };
 
   if (loading) {
@@ -205,12 +224,20 @@ const PhotoSwipeFeed = ({ eventId, currentGuestId, onPhotoDeleted }: PhotoSwipeF
     return (
       <div className="flex-1 flex items-center justify-center p-8">
         <div className="text-center">
-          <p className="font-display text-2xl text-muted-foreground mb-2">
-            Be the first to share
-          </p>
-          <p className="text-muted-foreground">
-            Your photo will appear here
-          </p>
+          {filters?.guestId || filters?.mediaType ? (
+            <p className="font-display text-2xl text-muted-foreground">
+              No moments match this filter
+            </p>
+          ) : (
+            <>
+              <p className="font-display text-2xl text-muted-foreground mb-2">
+                Be the first to share
+              </p>
+              <p className="text-muted-foreground">
+                Your photo will appear here
+              </p>
+            </>
+          )}
         </div>
       </div>
     );
@@ -220,11 +247,15 @@ const PhotoSwipeFeed = ({ eventId, currentGuestId, onPhotoDeleted }: PhotoSwipeF
     <>
       <div
         ref={containerRef}
-        className="flex-1 swipe-container hide-scrollbar bg-background"
+        onScroll={handleScroll}
+        className="h-screen swipe-container hide-scrollbar bg-background"
       >
-        {photos.map((photo, index) => {
+        <div style={{ height: topSpacer }} />
+        {photos.slice(start, end).map((photo, offset) => {
+          const index = start + offset;
           const isOwner = currentGuestId && photo.guest_id === currentGuestId;
           const isEditing = editingPhotoId === photo.id;
+          const sharedBy = guestName(photo.guest_id, photo.guest_name);
 
           return (
             <div
@@ -236,9 +267,11 @@ const PhotoSwipeFeed = ({ eventId, currentGuestId, onPhotoDeleted }: PhotoSwipeF
                 {/* Image container */}
                 <div className="relative aspect-[3/4] w-full bg-muted/30">
                   {photo.signedUrl ? (
-                    photo.image_url.match(/\.(mp4|mov|webm|avi|mkv)$/i) ? (
+                    isVideoPath(photo.image_url) ? (
                       <video
                         src={photo.signedUrl}
+                        poster={photo.posterUrl ?? undefined}
+                        preload={photo.posterUrl ? "none" : "metadata"}
                         className="w-full h-full object-cover"
                         controls
                         playsInline
@@ -253,7 +286,7 @@ const PhotoSwipeFeed = ({ eventId, currentGuestId, onPhotoDeleted }: PhotoSwipeF
                         )}
                         <img
                           src={photo.signedUrl}
-                          alt={photo.guest_name ? `Photo by ${photo.guest_name}` : "Wedding photo"}
+                          alt={sharedBy ? `Photo by ${sharedBy}` : "Wedding photo"}
                           className={`w-full h-full object-contain transition-opacity duration-300 ${photo.loaded ? 'opacity-100' : 'opacity-0'}`}
                           onLoad={() => handleImageLoad(photo.id)}
                         />
@@ -268,10 +301,24 @@ const PhotoSwipeFeed = ({ eventId, currentGuestId, onPhotoDeleted }: PhotoSwipeF
                   {/* Photo counter pill */}
                   <div className="absolute top-3 right-3 bg-foreground/60 backdrop-blur-sm rounded-full px-2.5 py-1">
                     <span className="text-background text-xs font-medium">
-                      {index + 1} / {photos.length}
+                      {index + 1} / {total}
                     </span>
                   </div>
 
+                  {/* Only the owner (and the couple) see a moment that is pending or hidden */}
+                  {isOwner && isHiddenFromGuests(photo.status) && (
+                    <div className="absolute top-3 left-3 bg-foreground/60 backdrop-blur-sm rounded-full px-2.5 py-1 flex items-center gap-1.5">
+                      {photo.status === "pending" ? (
+                        <Hourglass className="w-3 h-3 text-background" />
+                      ) : (
+                        <EyeOff className="w-3 h-3 text-background" />
+                      )}
+                      <span className="text-background text-xs font-medium">
+                        {hiddenMomentLabel(photo.status)}
+                      </span>
+                    </div>
+                  )}
+
                   {/* Owner actions */}
                   {isOwner && !isEditing && (
                     <div className="absolute bottom-3 right-3 flex gap-2">
@@ -298,13 +345,13 @@ const PhotoSwipeFeed = ({ eventId, currentGuestId, onPhotoDeleted }: PhotoSwipeF
                 {/* Info section below image */}
                 <div className="p-4">
                   <div className="flex items-center gap-2 mb-1">
-                    {photo.guest_name && (
+                    {sharedBy && (
                       <p className="font-semibold text-sm text-foreground">
-                        {photo.guest_name}
+                        {sharedBy}
                       </p>
                     )}
                     <span className="text-muted-foreground text-xs">
-                      · {formatDistanceToNow(new Date(photo.captured_at), { addSuffix: true })}
+                      · {formatDistanceToNow(new Date(photo.taken_at), { addSuffix: true })}
                     </span>
                   </div>
 
@@ -352,13 +399,64 @@ const PhotoSwipeFeed = ({ eventId, currentGuestId, onPhotoDeleted }: PhotoSwipeF
                       </p>
                     )
                   )}
+
+                  <PhotoReactions
+                    summary={getSummary(photo.id)}
+                    onReact={currentGuestId ? (emoji) => toggleReaction(photo.id, emoji) : undefined}
+                    className="mt-3"
+                  />
+
+                  <div className="flex items-center justify-between mt-3">
+                    <PhotoComments
+                      comments={getThread(photo.id).map((c) => ({ ...c, guest_name: guestName(c.guest_id, c.guest_name) }))}
+                      canDelete={(comment) => comment.guest_id === currentGuestId}
+                      onDelete={deleteComment}
+                      onAdd={currentGuestId ? (body) => addComment(photo.id, body) : undefined}
+                      triggerClassName="text-muted-foreground hover:text-foreground"
+                    />
+
+                    {/* Guests' own moments are always in their album */}
+                    {currentGuestId && !isOwner && (
+                      <div className="flex items-center gap-4">
+                        <button
+                          type="button"
+                          onClick={() => setReportPhotoId(photo.id)}
+                          className="text-muted-foreground hover:text-destructive"
+                          aria-label="Report this moment"
+                        >
+                          <Flag className="w-4 h-4" />
+                        </button>
+                        <button
+                          type="button"
+                          onClick={() => handleToggleFavorite(photo.id)}
+                          className="flex items-center gap-1.5 text-sm text-muted-foreground hover:text-foreground"
+                          aria-pressed={isFavorite(photo.id)}
+                        >
+                          <Bookmark className={`w-4 h-4 ${isFavorite(photo.id) ? "fill-primary text-primary" : ""}`} />
+                          <span>{isFavorite(photo.id) ? "Saved" : "Save"}</span>
+                        </button>
+                      </div>
+                    )}
+                  </div>
                 </div>
               </div>
             </div>
           );
         })}
+        <div style={{ height: bottomSpacer }} />
       </div>
 
+      <ReportMomentDialog
+        photoId={reportPhotoId}
+        onClose={() => setReportPhotoId(null)}
+        onReported={() => {
+          // Gone from the reporter's feed straight away. Once it's hidden, other
+          // guests' feeds get no update for it, since they can no longer see it.
+          if (reportPhotoId) removePhoto(reportPhotoId);
+          onMomentReported?.();
+        }}
+      />
+
       {/* Delete confirmation dialog */}
       <AlertDialog open={!!deletePhotoId} onOpenChange={() => setDeletePhotoId(null)}>
         <AlertDialogContent>
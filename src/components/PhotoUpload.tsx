@@ -1,237 +1,520 @@
-import { useState, useRef } from "react";
-import { supabase } from "@/integrations/supabase/client";
+import { useState, useRef, useEffect } from "react";
 import { Button } from "@/components/ui/button";
 import { Textarea } from "@/components/ui/textarea";
+import { Progress } from "@/components/ui/progress";
 import { useToast } from "@/hooks/use-toast";
-import { X, Camera, Upload, Check, Loader2 } from "lucide-react";
+import { X, Camera, Upload, Check, Loader2, Play, Aperture } from "lucide-react";
+import { formatMomentsRemaining } from "@/lib/moments";
+import type { MomentSendResult, NewMoment } from "@/hooks/useMomentQueue";
+import { canTrimVideo, extractPosterFrame, formatClipTime, getVideoDuration, trimVideo } from "@/lib/video";
+import { createRenditions, displayableImage, prepareImage, prepareVideo } from "@/lib/media";
+import { ACCEPTED_FILE_TYPES, MediaFileInfo, inspectMediaFile, storedFormat } from "@/lib/mediaFormats";
+import VideoTrimmer from "@/components/VideoTrimmer";
+import DisposableCamera from "@/components/DisposableCamera";
 
 interface PhotoUploadProps {
   guestId: string;
   eventId: string;
   photosRemaining: number;
-  guestName: string | null;
+  momentAllowance: number | null;
+  maxClipSeconds: number | null;
+  requireInAppCamera: boolean;
+  onShare: (moment: NewMoment, onProgress?: (fraction: number) => void) => Promise<MomentSendResult>;
+  onCancelShare: (momentId: string) => void;
   onClose: () => void;
   onSuccess: () => void;
 }
 
-// Compress image client-side before uploading
-const compressImage = (file: File, maxWidth = 1920, quality = 0.8): Promise<File> => {
-  return new Promise((resolve) => {
-    // Skip compression for non-image files (videos)
-    if (!file.type.startsWith("image/")) {
-      resolve(file);
-      return;
-    }
-
-    const img = new Image();
-    const url = URL.createObjectURL(file);
-    
-    img.onload = () => {
-      URL.revokeObjectURL(url);
-      
-      const canvas = document.createElement("canvas");
-      let { width, height } = img;
-
-      // Only downscale, never upscale
-      if (width > maxWidth) {
-        height = Math.round((height * maxWidth) / width);
-        width = maxWidth;
-      }
-
-      canvas.width = width;
-      canvas.height = height;
-
-      const ctx = canvas.getContext("2d");
-      if (!ctx) {
-        resolve(file);
-        return;
-      }
-
-      ctx.drawImage(img, 0, 0, width, height);
-
-      canvas.toBlob(
-        (blob) => {
-          if (!blob || blob.size >= file.size) {
-            // If compression didn't help, use original
-            resolve(file);
-            return;
-          }
-          const compressed = new File([blob], file.name, {
-            type: "image/jpeg",
-            lastModified: Date.now(),
-          });
-          resolve(compressed);
-        },
-        "image/jpeg",
-        quality
-      );
-    };
-
-    img.onerror = () => {
-      URL.revokeObjectURL(url);
-      resolve(file);
-    };
+// One picked file on the confirm screen
+interface SelectedMoment {
+  id: string; // Becomes the photo id when it is shared
+  file: File;
+  preview: string;
+  caption: string;
+  videoDuration: number | null;
+  trimRange: [number, number];
+}
 
-    img.src = url;
-  });
-};
+// Keeps memory use sane on phones when the event has no allowance
+const MAX_BATCH_SIZE = 20;
 
 const PhotoUpload = ({
   guestId,
   eventId,
   photosRemaining,
-  guestName,
+  momentAllowance,
+  maxClipSeconds,
+  requireInAppCamera,
+  onShare,
+  onCancelShare,
   onClose,
   onSuccess,
 }: PhotoUploadProps) => {
-  const [selectedFile, setSelectedFile] = useState<File | null>(null);
-  const [preview, setPreview] = useState<string | null>(null);
+  const [selected, setSelected] = useState<SelectedMoment[]>([]);
+  const [activeId, setActiveId] = useState<string | null>(null);
   const [uploading, setUploading] = useState(false);
   const [uploadProgress, setUploadProgress] = useState("");
-  const [showConfirm, setShowConfirm] = useState(false);
-  const [caption, setCaption] = useState("");
+  const [uploadPercent, setUploadPercent] = useState<number | null>(null);
+  const [momentId, setMomentId] = useState<string | null>(null);
+  const [converting, setConverting] = useState(false);
+  const [showCamera, setShowCamera] = useState(requireInAppCamera);
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const previewVideoRef = useRef<HTMLVideoElement>(null);
+  const cancelledRef = useRef(false);
+  const previewsRef = useRef<string[]>([]);
   const { toast } = useToast();
 
   const MAX_CAPTION_LENGTH = 150;
+  const maxSelectable = momentAllowance === null ? MAX_BATCH_SIZE : Math.min(photosRemaining, MAX_BATCH_SIZE);
+  const active = selected.find((m) => m.id === activeId) ?? selected[0];
+
+  // Release preview URLs when the screen closes
+  previewsRef.current = selected.map((m) => m.preview);
+  useEffect(() => () => previewsRef.current.forEach((url) => URL.revokeObjectURL(url)), []);
+
+  const updateMoment = (id: string, changes: Partial<SelectedMoment>) => {
+    setSelected((prev) => prev.map((m) => (m.id === id ? { ...m, ...changes } : m)));
+  };
+
+  const removeMoment = (id: string) => {
+    setSelected((prev) => {
+      const removed = prev.find((m) => m.id === id);
+      if (removed) URL.revokeObjectURL(removed.preview);
+      return prev.filter((m) => m.id !== id);
+    });
+  };
+
+  // Check one picked file and get it ready for the confirm screen.
+  // Returns an error message instead when it can't be shared.
+  const loadMoment = async (file: File): Promise<SelectedMoment | string> => {
+    let info: MediaFileInfo;
+    try {
+      info = inspectMediaFile(file);
+    } catch (error) {
+      return (error as Error).message;
+    }
+
+    let videoDuration: number | null = null;
+    let trimRange: [number, number] = [0, 0];
+
+    if (info.kind === "video") {
+      try {
+        videoDuration = await getVideoDuration(file);
+      } catch (error) {
+        return (error as Error).message;
+      }
+
+      // Long clips must be trimmed down to the event's limit before sharing
+      if (maxClipSeconds !== null && videoDuration > maxClipSeconds && !canTrimVideo()) {
+        return `Clips can be up to ${formatClipTime(maxClipSeconds)}, and this browser can't trim videos. Please choose a shorter clip.`;
+      }
+
+      trimRange = [0, maxClipSeconds === null ? videoDuration : Math.min(videoDuration, maxClipSeconds)];
+    }
 
-  const handleFileSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const file = e.target.files?.[0];
-    if (!file) return;
+    let previewSource: Blob = file;
+    if (info.needsConversion) {
+      try {
+        previewSource = await displayableImage(file);
+      } catch (error) {
+        return (error as Error).message;
+      }
+    }
+
+    return {
+      id: crypto.randomUUID(),
+      file,
+      preview: URL.createObjectURL(previewSource),
+      caption: "",
+      videoDuration,
+      trimRange,
+    };
+  };
+
+  const handleFileSelect = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const picked = Array.from(e.target.files ?? []);
+    e.target.value = "";
+    if (picked.length === 0) return;
 
-    const isImage = file.type.startsWith("image/");
-    const isVideo = file.type.startsWith("video/");
-    
-    if (!isImage && !isVideo) {
+    // Never select more than the guest has moments left to share
+    const files = picked.slice(0, Math.max(maxSelectable - selected.length, 0));
+
+    if (picked.length > files.length) {
       toast({
-        title: "Invalid file",
-        description: "Please select an image or video file.",
+        title: "That's more than you have left",
+        description: `We kept the first ${files.length}. ${formatMomentsRemaining(photosRemaining, momentAllowance)}.`,
+      });
+    }
+
+    setConverting(true);
+    const loaded: SelectedMoment[] = [];
+    const problems: string[] = [];
+
+    // One at a time: HEIC conversion and video probing are heavy on phones
+    for (const file of files) {
+      const result = await loadMoment(file);
+      if (typeof result === "string") {
+        problems.push(files.length > 1 ? `${file.name}: ${result}` : result);
+      } else {
+        loaded.push(result);
+      }
+    }
+    setConverting(false);
+
+    if (problems.length > 0) {
+      toast({
+        title: problems.length === 1 ? "Unsupported file" : `${problems.length} files can't be shared`,
+        description: problems.join(" "),
         variant: "destructive",
       });
+    }
+
+    if (loaded.length > 0) {
+      setSelected((prev) => [...prev, ...loaded]);
+      setActiveId(loaded[0].id);
+    }
+  };
+
+  // Compress, trim and strip one moment, ready for the queue
+  const prepareMoment = async (
+    moment: SelectedMoment,
+    onTrimProgress: (fraction: number) => void
+  ): Promise<NewMoment> => {
+    // Compress photos and strip location data before anything leaves the device
+    const isVideo = moment.videoDuration !== null;
+    let { file: processedFile, takenAt } = isVideo
+      ? await prepareVideo(moment.file)
+      : await prepareImage(moment.file);
+    let poster: Blob | undefined;
+
+    if (moment.videoDuration !== null) {
+      const [start, end] = moment.trimRange;
+      const isTrimmed = start > 0.05 || end < moment.videoDuration - 0.05;
+
+      if (isTrimmed) {
+        setUploadProgress("Trimming...");
+        // A re-recorded clip carries no metadata; shift its time to the trim start
+        processedFile = await trimVideo(moment.file, start, end, onTrimProgress);
+        if (takenAt) takenAt = new Date(takenAt.getTime() + start * 1000);
+      }
+
+      // A missing poster shouldn't stop the clip from being shared
+      poster = await extractPosterFrame(processedFile).catch(() => undefined);
+    }
+
+    // Grids and feeds load these instead of the full file; the original is kept for downloads
+    const still = isVideo ? poster : processedFile;
+    const renditions = still ? await createRenditions(still).catch(() => ({})) : {};
+
+    const { extension, contentType } = storedFormat(processedFile);
+    const caption = moment.caption.trim();
+
+    return {
+      id: moment.id,
+      eventId,
+      guestId,
+      file: processedFile,
+      extension,
+      contentType,
+      poster,
+      renditions,
+      caption: caption.length > 0 ? caption : null,
+      takenAt,
+      captureSource: "upload",
+    };
+  };
+
+  // A disposable camera shot is shared as soon as it is taken - no review step
+  const handleCameraShot = async (shot: Blob, takenAt: Date) => {
+    let result: MomentSendResult;
+    try {
+      const { file } = await prepareImage(new File([shot], "shot.jpg", { type: "image/jpeg" }));
+      const renditions = await createRenditions(file).catch(() => ({}));
+
+      result = await onShare({
+        id: crypto.randomUUID(),
+        eventId,
+        guestId,
+        file,
+        extension: "jpg",
+        contentType: "image/jpeg",
+        renditions,
+        caption: null,
+        takenAt,
+        captureSource: "camera",
+      });
+    } catch (error) {
+      result = { status: "failed", error: { message: (error as Error).message } };
+    }
+
+    if (result.status === "failed") {
+      toast({ title: "Upload failed", description: result.error.message, variant: "destructive" });
+      setShowCamera(false);
       return;
     }
 
-    setSelectedFile(file);
-    setPreview(URL.createObjectURL(file));
-    setShowConfirm(true);
+    if (result.status === "queued") {
+      toast({
+        title: "Saved for later",
+        description: "No connection right now. We'll send your moment as soon as you're back online.",
+      });
+    } else if (result.status === "sent") {
+      toast({
+        title: "Moment captured!",
+        description: result.remaining === null ? "Share as many as you like." : `${result.remaining} photos remaining.`,
+      });
+    }
+
+    onSuccess();
   };
 
+  // Share the selection one moment at a time. Each is its own share_moment
+  // call, so the server charges exactly one moment per item.
   const handleUpload = async () => {
-    if (!selectedFile) return;
+    if (selected.length === 0) return;
+
+    const batch = selected;
+    const total = batch.length;
+    let shared = 0;
+    let queued = 0;
+    let remaining: number | null = null;
 
     setUploading(true);
-    setUploadProgress("Preparing...");
+    setUploadPercent(0);
+    cancelledRef.current = false;
+
+    for (const [index, moment] of batch.entries()) {
+      // Each item is an equal slice of the overall bar: half preparing, half uploading
+      const report = (fraction: number) => setUploadPercent(Math.round(((index + fraction) / total) * 100));
+      const label = total > 1 ? ` ${index + 1} of ${total}` : "";
+
+      setActiveId(moment.id);
+      setMomentId(moment.id);
+
+      let result: MomentSendResult;
+      try {
+        setUploadProgress(`Optimizing${label}...`);
+        const prepared = await prepareMoment(moment, (fraction) => report(fraction * 0.5));
+
+        if (cancelledRef.current) {
+          result = { status: "cancelled" };
+        } else {
+          setUploadProgress(`Uploading${label}...`);
+          report(0.5);
+          // Saved to the on-device queue first, so a dropped connection doesn't lose the moment
+          result = await onShare(prepared, (fraction) => report(0.5 + fraction * 0.5));
+        }
+      } catch (error) {
+        result = { status: "failed", error: { message: (error as Error).message } };
+      }
 
-    try {
-      // Compress image before upload
-      setUploadProgress("Optimizing...");
-      const processedFile = await compressImage(selectedFile);
-
-      // Sanitize filename
-      const sanitizedName = processedFile.name.replace(/[^a-zA-Z0-9.-]/g, '_');
-      const extension = processedFile.type === "image/jpeg" ? "jpg" : sanitizedName.split('.').pop() || 'jpg';
-      const fileName = `${eventId}/${guestId}/${Date.now()}.${extension}`;
-      
-      setUploadProgress("Uploading...");
-      
-      // Upload to storage
-      const { data: uploadData, error: uploadError } = await supabase.storage
-        .from("wedding-photos")
-        .upload(fileName, processedFile, {
-          contentType: processedFile.type,
-          upsert: false,
+      // Stop here; whatever hasn't gone out stays on the confirm screen
+      if (result.status === "cancelled") {
+        toast({
+          title: "Upload cancelled",
+          description: shared + queued > 0 ? `${shared + queued} of ${total} moments were already shared.` : undefined,
         });
+        resetUpload();
+        return;
+      }
 
-      if (uploadError) throw uploadError;
+      if (result.status === "failed") {
+        toast({
+          title: total > 1 ? `Moment ${index + 1} of ${total} couldn't be shared` : "Upload failed",
+          description: result.error.message,
+          variant: "destructive",
+        });
+        resetUpload();
+        return;
+      }
 
-      setUploadProgress("Saving...");
+      removeMoment(moment.id);
+      if (result.status === "queued") {
+        queued += 1;
+      } else {
+        shared += 1;
+        remaining = result.remaining;
+      }
+    }
 
-      // Store the file path
-      const trimmedCaption = caption.trim();
-      const { error: photoError } = await supabase.from("photos").insert({
-        wedding_event_id: eventId,
-        guest_id: guestId,
-        image_url: fileName,
-        guest_name: guestName,
-        caption: trimmedCaption.length > 0 ? trimmedCaption : null,
+    if (queued > 0) {
+      toast({
+        title: "Saved for later",
+        description: `No connection right now. We'll send ${queued === 1 ? "your moment" : `${queued} moments`} as soon as you're back online.`,
       });
+    } else {
+      toast({
+        title: shared === 1 ? "Moment captured!" : `${shared} moments captured!`,
+        description: remaining === null ? "Share as many as you like." : `${remaining} photos remaining.`,
+      });
+    }
 
-      if (photoError) throw photoError;
+    onSuccess();
+  };
 
-      // Update guest's photo count and unlock feed
-      const { error: updateError } = await supabase
-        .from("guests")
-        .update({
-          photos_remaining: photosRemaining - 1,
-          has_unlocked_feed: true,
-        })
-        .eq("id", guestId);
+  const handleCancel = () => {
+    cancelledRef.current = true;
+    if (momentId) onCancelShare(momentId);
+  };
 
-      if (updateError) throw updateError;
+  const resetUpload = () => {
+    setUploading(false);
+    setUploadProgress("");
+    setUploadPercent(null);
+    setMomentId(null);
+  };
 
-      toast({
-        title: "Moment captured!",
-        description: `${photosRemaining - 1} photos remaining.`,
-      });
+  // The camera takes one shot; the gallery allows picking several
+  const openPicker = (fromGallery: boolean) => {
+    const input = fileInputRef.current;
+    if (!input) return;
 
-      onSuccess();
-    } catch (error: any) {
-      toast({
-        title: "Upload failed",
-        description: error.message,
-        variant: "destructive",
-      });
-      setUploading(false);
-      setUploadProgress("");
+    if (!fromGallery) {
+      input.click();
+      return;
     }
+
+    input.removeAttribute("capture");
+    input.setAttribute("multiple", "");
+    input.click();
+    input.removeAttribute("multiple");
+    input.setAttribute("capture", "environment");
   };
 
-  if (showConfirm && preview) {
+  const fileInput = (
+    <input
+      ref={fileInputRef}
+      type="file"
+      accept={ACCEPTED_FILE_TYPES}
+      capture="environment"
+      onChange={handleFileSelect}
+      className="hidden"
+    />
+  );
+
+  if (showCamera) {
+    return (
+      <DisposableCamera
+        photosRemaining={photosRemaining}
+        momentAllowance={momentAllowance}
+        onCapture={handleCameraShot}
+        onClose={requireInAppCamera ? onClose : () => setShowCamera(false)}
+      />
+    );
+  }
+
+  if (active) {
     return (
       <div className="min-h-screen bg-background flex flex-col animate-fade-in">
+        {fileInput}
         <header className="p-4 flex items-center justify-between">
           <Button variant="ghost" size="icon" onClick={onClose} disabled={uploading}>
             <X className="w-6 h-6" />
           </Button>
-          <h1 className="font-display text-lg">Confirm Moment</h1>
+          <h1 className="font-display text-lg">
+            {selected.length > 1 ? `Confirm ${selected.length} Moments` : "Confirm Moment"}
+          </h1>
           <div className="w-10" />
         </header>
 
         <div className="flex-1 flex flex-col items-center justify-center p-6 overflow-y-auto">
           <div className="relative w-full max-w-sm aspect-[3/4] rounded-2xl overflow-hidden shadow-xl mb-6">
-            {selectedFile?.type.startsWith("video/") ? (
+            {active.videoDuration !== null ? (
               <video
-                src={preview}
+                key={active.id}
+                ref={previewVideoRef}
+                src={active.preview}
                 className="w-full h-full object-cover"
                 controls
                 playsInline
               />
             ) : (
               <img
-                src={preview}
+                src={active.preview}
                 alt="Preview"
                 className="w-full h-full object-cover"
               />
             )}
             {/* Caption preview overlay */}
-            {caption.trim() && (
+            {active.caption.trim() && (
               <>
                 <div className="absolute inset-0 bg-gradient-to-t from-black/60 via-transparent to-transparent" />
                 <div className="absolute bottom-0 left-0 right-0 p-4">
-                  <p className="text-white text-sm leading-relaxed">{caption}</p>
+                  <p className="text-white text-sm leading-relaxed">{active.caption}</p>
                 </div>
               </>
             )}
           </div>
 
+          {/* Review strip: tap a moment to edit its caption, X to leave it out */}
+          {(selected.length > 1 || selected.length < maxSelectable) && (
+            <div className="w-full max-w-sm mb-6 flex gap-2 overflow-x-auto scrollbar-hide p-1">
+              {selected.map((moment) => (
+                <div key={moment.id} className="relative shrink-0">
+                  <button
+                    type="button"
+                    onClick={() => setActiveId(moment.id)}
+                    disabled={uploading}
+                    className={`w-16 h-16 rounded-lg overflow-hidden border-2 ${
+                      moment.id === active.id ? "border-primary" : "border-transparent"
+                    }`}
+                  >
+                    {moment.videoDuration !== null ? (
+                      <div className="relative w-full h-full">
+                        <video src={moment.preview} className="w-full h-full object-cover" muted playsInline />
+                        <Play className="absolute inset-0 m-auto w-4 h-4 text-white" />
+                      </div>
+                    ) : (
+                      <img src={moment.preview} alt="Selected moment" className="w-full h-full object-cover" />
+                    )}
+                  </button>
+                  {!uploading && (
+                    <button
+                      type="button"
+                      onClick={() => removeMoment(moment.id)}
+                      className="absolute -top-1 -right-1 w-5 h-5 rounded-full bg-foreground text-background flex items-center justify-center"
+                      aria-label="Remove from selection"
+                    >
+                      <X className="w-3 h-3" />
+                    </button>
+                  )}
+                </div>
+              ))}
+              {!uploading && selected.length < maxSelectable && (
+                <button
+                  type="button"
+                  onClick={() => openPicker(true)}
+                  disabled={converting}
+                  className="w-16 h-16 shrink-0 rounded-lg border-2 border-dashed border-border flex items-center justify-center text-muted-foreground"
+                  aria-label="Add more moments"
+                >
+                  {converting ? <Loader2 className="w-5 h-5 animate-spin" /> : <Upload className="w-5 h-5" />}
+                </button>
+              )}
+            </div>
+          )}
+
+          {active.videoDuration !== null && (
+            <div className="w-full max-w-sm mb-6">
+              <VideoTrimmer
+                videoRef={previewVideoRef}
+                duration={active.videoDuration}
+                maxSeconds={maxClipSeconds}
+                range={active.trimRange}
+                onRangeChange={(trimRange) => updateMoment(active.id, { trimRange })}
+                disabled={uploading}
+              />
+            </div>
+          )}
+
           {/* Caption input */}
           <div className="w-full max-w-sm mb-6">
             <Textarea
               placeholder="Add a caption (optional)"
-              value={caption}
+              value={active.caption}
               onChange={(e) => {
                 if (e.target.value.length <= MAX_CAPTION_LENGTH) {
-                  setCaption(e.target.value);
+                  updateMoment(active.id, { caption: e.target.value });
                 }
               }}
               className="resize-none bg-muted/50 border-border/50 focus:border-primary"
@@ -239,24 +522,40 @@ const PhotoUpload = ({
               disabled={uploading}
             />
             <p className="text-xs text-muted-foreground text-right mt-1">
-              {caption.length}/{MAX_CAPTION_LENGTH}
+              {active.caption.length}/{MAX_CAPTION_LENGTH}
             </p>
           </div>
 
+          {uploading && uploadPercent !== null && (
+            <div className="w-full max-w-sm mb-6 space-y-1">
+              <Progress value={uploadPercent} className="h-2" />
+              <p className="text-xs text-muted-foreground text-right">{uploadPercent}%</p>
+            </div>
+          )}
+
           <div className="flex gap-4">
-            <Button
-              variant="outline"
-              onClick={() => {
-                setShowConfirm(false);
-                setSelectedFile(null);
-                setPreview(null);
-                setCaption("");
-              }}
-              disabled={uploading}
-              className="h-12 px-6"
-            >
-              Choose Another
-            </Button>
+            {uploading ? (
+              <Button
+                variant="outline"
+                onClick={handleCancel}
+                disabled={!momentId}
+                className="h-12 px-6"
+              >
+                Cancel
+              </Button>
+            ) : (
+              <Button
+                variant="outline"
+                onClick={() => {
+                  selected.forEach((m) => URL.revokeObjectURL(m.preview));
+                  setSelected([]);
+                  setActiveId(null);
+                }}
+                className="h-12 px-6"
+              >
+                Choose Another
+              </Button>
+            )}
             <Button
               onClick={handleUpload}
               disabled={uploading}
@@ -270,7 +569,7 @@ const PhotoUpload = ({
               ) : (
                 <>
                   <Check className="mr-2 h-5 w-5" />
-                  Share Moment
+                  {selected.length > 1 ? `Share ${selected.length} Moments` : "Share Moment"}
                 </>
               )}
             </Button>
@@ -291,47 +590,69 @@ const PhotoUpload = ({
       </header>
 
       <div className="flex-1 flex flex-col items-center justify-center p-6">
-        <input
-          ref={fileInputRef}
-          type="file"
-          accept="image/*,video/*"
-          capture="environment"
-          onChange={handleFileSelect}
-          className="hidden"
-        />
+        {fileInput}
 
         <div className="photo-counter mb-8">
           <Camera className="w-4 h-4" />
-          <span>{photosRemaining} moments remaining</span>
+          <span>{formatMomentsRemaining(photosRemaining, momentAllowance)}</span>
         </div>
 
         <div className="w-full max-w-sm space-y-4">
-          <Button
-            onClick={() => fileInputRef.current?.click()}
-            className="w-full h-20 gradient-sage text-primary-foreground text-lg rounded-2xl"
-          >
-            <Camera className="mr-3 h-6 w-6" />
-            Take Photo
-          </Button>
-
-          <Button
-            variant="outline"
-            onClick={() => {
-              if (fileInputRef.current) {
-                fileInputRef.current.removeAttribute("capture");
-                fileInputRef.current.click();
-                fileInputRef.current.setAttribute("capture", "environment");
-              }
-            }}
-            className="w-full h-16 text-lg rounded-2xl"
-          >
-            <Upload className="mr-3 h-5 w-5" />
-            Choose from Gallery
-          </Button>
+          {requireInAppCamera ? (
+            <Button
+              onClick={() => setShowCamera(true)}
+              className="w-full h-20 gradient-sage text-primary-foreground text-lg rounded-2xl"
+            >
+              <Camera className="mr-3 h-6 w-6" />
+              Open Camera
+            </Button>
+          ) : (
+            <>
+              <Button
+                onClick={() => openPicker(false)}
+                disabled={converting}
+                className="w-full h-20 gradient-sage text-primary-foreground text-lg rounded-2xl"
+              >
+                <Camera className="mr-3 h-6 w-6" />
+                Take Photo
+              </Button>
+
+              <Button
+                variant="outline"
+                onClick={() => openPicker(true)}
+                disabled={converting}
+                className="w-full h-16 text-lg rounded-2xl"
+              >
+                {converting ? (
+                  <>
+                    <Loader2 className="mr-3 h-5 w-5 animate-spin" />
+                    Preparing...
+                  </>
+                ) : (
+                  <>
+                    <Upload className="mr-3 h-5 w-5" />
+                    Choose from Gallery
+                  </>
+                )}
+              </Button>
+
+              <Button
+                variant="ghost"
+                onClick={() => setShowCamera(true)}
+                disabled={converting}
+                className="w-full h-12 rounded-2xl text-muted-foreground"
+              >
+                <Aperture className="mr-2 h-4 w-4" />
+                Use the disposable camera
+              </Button>
+            </>
+          )}
         </div>
 
         <p className="text-center text-muted-foreground mt-8 max-w-xs text-sm">
-          Make it count — you can add a caption and delete if needed.
+          {requireInAppCamera
+            ? "This wedding is camera first — shoot it as it happens, no retakes."
+            : "Make it count — you can add a caption and delete if needed."}
         </p>
       </div>
     </div>
@@ -0,0 +1,80 @@
+import { useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { Loader2 } from "lucide-react";
+import { REPORT_REASONS, type ReportReason } from "@/lib/reports";
+
+interface ReportMomentDialogProps {
+  photoId: string | null; // The moment being reported; null closes the dialog
+  onClose: () => void;
+  onReported: () => void;
+}
+
+const ReportMomentDialog = ({ photoId, onClose, onReported }: ReportMomentDialogProps) => {
+  const [reason, setReason] = useState<ReportReason>("inappropriate");
+  const [reporting, setReporting] = useState(false);
+  const { toast } = useToast();
+
+  const handleReport = async () => {
+    if (!photoId) return;
+    setReporting(true);
+
+    const { error } = await supabase.rpc("report_moment", { photo_uuid: photoId, reason_text: reason });
+
+    if (error) {
+      toast({ title: "Failed to report moment", description: error.message, variant: "destructive" });
+    } else {
+      toast({ title: "Thanks for letting us know", description: "The couple will take a look." });
+      onReported();
+      onClose();
+    }
+    setReporting(false);
+  };
+
+  return (
+    <Dialog open={!!photoId} onOpenChange={(open) => !open && !reporting && onClose()}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle className="font-display">Report this moment?</DialogTitle>
+          <DialogDescription>
+            The couple will review it. If enough guests report it, it's hidden in the meantime.
+          </DialogDescription>
+        </DialogHeader>
+
+        <RadioGroup value={reason} onValueChange={(value) => setReason(value as ReportReason)}>
+          {REPORT_REASONS.map((option) => (
+            <div key={option.value} className="flex items-center gap-2">
+              <RadioGroupItem value={option.value} id={`report-${option.value}`} />
+              <Label htmlFor={`report-${option.value}`} className="font-normal">
+                {option.label}
+              </Label>
+            </div>
+          ))}
+        </RadioGroup>
+
+        <DialogFooter>
+          <Button variant="ghost" onClick={onClose} disabled={reporting}>
+            Cancel
+          </Button>
+          <Button variant="destructive" onClick={handleReport} disabled={reporting}>
+            {reporting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Report
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ReportMomentDialog;
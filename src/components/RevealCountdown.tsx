@@ -0,0 +1,28 @@
+import { useEffect, useState } from "react";
+import { formatTimeUntilReveal, isRevealed } from "@/lib/reveal";
+
+interface RevealCountdownProps {
+  revealAt: string;
+  onRevealed: () => void;
+}
+
+// Ticks on its own so the feed around it doesn't re-render every second
+const RevealCountdown = ({ revealAt, onRevealed }: RevealCountdownProps) => {
+  const [now, setNow] = useState(Date.now());
+
+  useEffect(() => {
+    const timer = setInterval(() => {
+      const current = Date.now();
+      setNow(current);
+      if (isRevealed(revealAt, current)) {
+        clearInterval(timer);
+        onRevealed();
+      }
+    }, 1000);
+    return () => clearInterval(timer);
+  }, [revealAt, onRevealed]);
+
+  return <>{formatTimeUntilReveal(revealAt, now)}</>;
+};
+
+export default RevealCountdown;
@@ -0,0 +1,79 @@
+import { useEffect, RefObject } from "react";
+import { Slider } from "@/components/ui/slider";
+import { Scissors } from "lucide-react";
+import { formatClipTime } from "@/lib/video";
+
+interface VideoTrimmerProps {
+  videoRef: RefObject<HTMLVideoElement>;
+  duration: number;
+  maxSeconds: number | null;
+  range: [number, number];
+  onRangeChange: (range: [number, number]) => void;
+  disabled?: boolean;
+}
+
+// Range controls for the preview video; the preview loops inside the selection
+const VideoTrimmer = ({ videoRef, duration, maxSeconds, range, onRangeChange, disabled }: VideoTrimmerProps) => {
+  const [start, end] = range;
+
+  // Loop the preview inside the selected range
+  useEffect(() => {
+    const video = videoRef.current;
+    if (!video) return;
+
+    if (video.currentTime < start || video.currentTime > end) {
+      video.currentTime = start;
+    }
+
+    const handleTimeUpdate = () => {
+      if (video.currentTime >= end) {
+        video.currentTime = start;
+      }
+    };
+    video.addEventListener("timeupdate", handleTimeUpdate);
+    return () => video.removeEventListener("timeupdate", handleTimeUpdate);
+  }, [videoRef, start, end]);
+
+  const handleValueChange = ([nextStart, nextEnd]: number[]) => {
+    if (maxSeconds === null || nextEnd - nextStart <= maxSeconds) {
+      onRangeChange([nextStart, nextEnd]);
+      return;
+    }
+
+    // Keep the window at most maxSeconds long by dragging the other handle along
+    if (nextStart !== start) {
+      onRangeChange([nextStart, nextStart + maxSeconds]);
+    } else {
+      onRangeChange([nextEnd - maxSeconds, nextEnd]);
+    }
+  };
+
+  const clipLength = end - start;
+  const overLimit = maxSeconds !== null && clipLength > maxSeconds + 0.05;
+
+  return (
+    <div className="w-full px-1 space-y-2">
+      <div className="flex items-center justify-between text-xs text-muted-foreground">
+        <span className="flex items-center gap-1">
+          <Scissors className="w-3 h-3" />
+          {formatClipTime(start)} – {formatClipTime(end)}
+        </span>
+        <span className={overLimit ? "text-destructive" : undefined}>
+          {formatClipTime(clipLength)}
+          {maxSeconds !== null && ` / ${formatClipTime(maxSeconds)} max`}
+        </span>
+      </div>
+      <Slider
+        min={0}
+        max={duration}
+        step={0.1}
+        value={[start, end]}
+        onValueChange={handleValueChange}
+        minStepsBetweenThumbs={10}
+        disabled={disabled}
+      />
+    </div>
+  );
+};
+
+export default VideoTrimmer;
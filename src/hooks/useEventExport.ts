@@ -0,0 +1,150 @@
+import { useState, useEffect, useCallback } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { fetchGuestNames } from "@/lib/guests";
+import { saveArchive } from "@/lib/albumArchive";
+import {
+  ARCHIVE_VOLUME_SIZE,
+  BUFFERED_VOLUME_BYTES,
+  STREAMED_VOLUME_BYTES,
+  type ExportMoment,
+  type ExportProgress,
+  archivePaths,
+  archiveVolumeStream,
+  buildManifest,
+  clearExportProgress,
+  loadExportProgress,
+  saveExportProgress,
+} from "@/lib/eventArchive";
+
+// The File System Access API isn't in the DOM typings yet
+interface DirectoryPickerWindow extends Window {
+  showDirectoryPicker?: (options?: { id?: string; mode?: "read" | "readwrite" }) => Promise<FileSystemDirectoryHandle>;
+}
+
+// PostgREST returns at most this many rows per request
+const FETCH_BATCH_SIZE = 1000;
+
+const fetchExportMoments = async (eventId: string): Promise<ExportMoment[]> => {
+  const guestNames = await fetchGuestNames(eventId);
+  const moments: ExportMoment[] = [];
+
+  for (let from = 0; ; from += FETCH_BATCH_SIZE) {
+    const { data, error } = await supabase
+      .from("photos")
+      .select("id, image_url, taken_at, caption, guest_id, guest_name")
+      .eq("wedding_event_id", eventId)
+      .order("taken_at", { ascending: true })
+      .order("id", { ascending: true })
+      .range(from, from + FETCH_BATCH_SIZE - 1);
+
+    if (error) throw error;
+    for (const { guest_name, ...photo } of data) {
+      moments.push({ ...photo, sharedBy: photo.guest_id in guestNames ? guestNames[photo.guest_id] : guest_name });
+    }
+    if (data.length < FETCH_BATCH_SIZE) return moments;
+  }
+};
+
+// Export every moment of an event as ZIPs, with a folder per guest and a
+// manifest. Where the browser allows it, volumes stream straight into a
+// folder the couple picks; elsewhere each (smaller) volume is downloaded in
+// turn.
+// Finished volumes are remembered, so an interrupted export can resume.
+export const useEventExport = (eventId: string | undefined, archiveName: string) => {
+  const [savedProgress, setSavedProgress] = useState<ExportProgress | null>(null);
+  const [progress, setProgress] = useState<{ done: number; total: number } | null>(null);
+
+  useEffect(() => {
+    setSavedProgress(eventId ? loadExportProgress(eventId) : null);
+  }, [eventId]);
+
+  // Throws if the export stops part way; what finished is kept for resuming
+  const exportArchive = useCallback(async (resume: boolean) => {
+    if (!eventId) return;
+
+    // The folder picker needs the click that started this, so it goes first
+    const picker = (window as DirectoryPickerWindow).showDirectoryPicker;
+    let folder: FileSystemDirectoryHandle | null = null;
+    if (picker) {
+      try {
+        folder = await picker({ id: "wedding-export", mode: "readwrite" });
+      } catch (error) {
+        if ((error as Error).name === "AbortError") return;
+        throw error;
+      }
+    }
+
+    setProgress({ done: 0, total: 0 });
+    try {
+      let moments = await fetchExportMoments(eventId);
+      const saved = resume ? loadExportProgress(eventId) : null;
+
+      // Keep the original order so each volume holds the same moments as
+      // before; anything deleted since is skipped, anything new goes last
+      if (saved) {
+        const byId = new Map(moments.map((m) => [m.id, m]));
+        const known = new Set(saved.momentIds);
+        moments = [
+          ...saved.momentIds.flatMap((id) => byId.get(id) ?? []),
+          ...moments.filter((m) => !known.has(m.id)),
+        ];
+      }
+
+      const state: ExportProgress = {
+        momentIds: moments.map((m) => m.id),
+        completedVolumes: saved?.completedVolumes ?? 0,
+        completedMoments: saved?.completedMoments ?? 0,
+        startedAt: saved?.startedAt ?? new Date().toISOString(),
+      };
+      saveExportProgress(eventId, state);
+      setSavedProgress(state);
+
+      const paths = archivePaths(moments);
+      const manifest = buildManifest(moments, paths);
+      let done = state.completedMoments;
+      setProgress({ done, total: moments.length });
+
+      // An event without moments still gets a ZIP with its manifest
+      while (state.completedVolumes === 0 || state.completedMoments < moments.length) {
+        const start = state.completedMoments;
+        const volume = archiveVolumeStream(
+          moments.slice(start, start + ARCHIVE_VOLUME_SIZE),
+          paths,
+          manifest,
+          folder ? STREAMED_VOLUME_BYTES : BUFFERED_VOLUME_BYTES,
+          () => setProgress({ done: ++done, total: moments.length })
+        );
+        // How many parts there are is only known once they're written
+        const filename = state.completedVolumes > 0
+          ? `${archiveName}-part-${state.completedVolumes + 1}.zip`
+          : `${archiveName}.zip`;
+
+        if (folder) {
+          const file = await folder.getFileHandle(filename, { create: true });
+          await volume.stream.pipeTo(await file.createWritable());
+        } else {
+          await saveArchive(await new Response(volume.stream).blob(), filename);
+        }
+
+        state.completedVolumes += 1;
+        state.completedMoments = start + volume.included();
+        saveExportProgress(eventId, state);
+        setSavedProgress({ ...state });
+      }
+
+      clearExportProgress(eventId);
+      setSavedProgress(null);
+      return { moments: moments.length, volumes: state.completedVolumes };
+    } finally {
+      setProgress(null);
+    }
+  }, [eventId, archiveName]);
+
+  const discardExport = useCallback(() => {
+    if (!eventId) return;
+    clearExportProgress(eventId);
+    setSavedProgress(null);
+  }, [eventId]);
+
+  return { progress, exporting: progress !== null, savedProgress, exportArchive, discardExport };
+};
@@ -0,0 +1,43 @@
+import { useState, useEffect, useCallback } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import type { Database } from "@/integrations/supabase/types";
+
+export type EventGuest = Database["public"]["Functions"]["event_guest_list"]["Returns"][number];
+
+// Everyone who joined an event, most recently active first. The list follows
+// guests joining, sharing and being changed by another host.
+export const useEventGuests = (eventId: string) => {
+  const [guests, setGuests] = useState<EventGuest[]>([]);
+
+  const refresh = useCallback(async () => {
+    const { data, error } = await supabase.rpc("event_guest_list", { event_uuid: eventId });
+
+    if (!error && data) {
+      setGuests(data);
+    }
+  }, [eventId]);
+
+  useEffect(() => {
+    refresh();
+
+    const channel = supabase
+      .channel("event-guests")
+      .on(
+        "postgres_changes",
+        { event: "*", schema: "public", table: "guests", filter: `wedding_event_id=eq.${eventId}` },
+        refresh
+      )
+      .on(
+        "postgres_changes",
+        { event: "INSERT", schema: "public", table: "photos", filter: `wedding_event_id=eq.${eventId}` },
+        refresh
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [eventId, refresh]);
+
+  return { guests, refresh };
+};
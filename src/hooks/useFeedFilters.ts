@@ -0,0 +1,53 @@
+import { useCallback, useMemo } from "react";
+import { useSearchParams } from "react-router-dom";
+import type { MediaType, PhotoFilters } from "@/hooks/usePhotoPages";
+
+type FilterParam = "mine" | "guest" | "type";
+
+// Feed filters live in the URL (?mine=1, ?guest=<id>, ?type=video) so a
+// filtered view survives a reload and can be shared. "Mine" is relative to
+// whoever opens the link, so it only applies when a guest is signed in.
+export const useFeedFilters = (currentGuestId?: string) => {
+  const [searchParams, setSearchParams] = useSearchParams();
+
+  const mine = !!currentGuestId && searchParams.get("mine") === "1";
+  const guestId = mine ? null : searchParams.get("guest");
+  const type = searchParams.get("type");
+  const mediaType: MediaType | null = type === "photo" || type === "video" ? type : null;
+
+  const filters: PhotoFilters = useMemo(
+    () => ({ guestId: mine ? currentGuestId : guestId, mediaType }),
+    [mine, currentGuestId, guestId, mediaType]
+  );
+
+  const update = useCallback(
+    (changes: Partial<Record<FilterParam, string | null>>) => {
+      setSearchParams(
+        (prev) => {
+          const next = new URLSearchParams(prev);
+          for (const [param, value] of Object.entries(changes)) {
+            if (value) next.set(param, value);
+            else next.delete(param);
+          }
+          return next;
+        },
+        { replace: true }
+      );
+    },
+    [setSearchParams]
+  );
+
+  return {
+    filters,
+    mine,
+    guestId,
+    mediaType,
+    isFiltered: mine || !!guestId || !!mediaType,
+    setMine: (on: boolean) => update({ mine: on ? "1" : null, guest: null }),
+    setGuest: (id: string | null) => update({ guest: id, mine: null }),
+    setMediaType: (value: MediaType | null) => update({ type: value }),
+    clearFilters: () => update({ mine: null, guest: null, type: null }),
+  };
+};
+
+export type FeedFilterState = ReturnType<typeof useFeedFilters>;
@@ -0,0 +1,31 @@
+import { useState, useEffect, useCallback } from "react";
+import { fetchGuestNames } from "@/lib/guests";
+
+interface KnownGuest {
+  id: string;
+  name: string | null;
+}
+
+// Who shared what, by the guest's current name. The signed-in guest's own
+// name is passed in so a rename shows up without refetching everyone.
+export const useGuestNames = (eventId: string | undefined, currentGuest?: KnownGuest) => {
+  const [names, setNames] = useState<Record<string, string | null>>({});
+
+  useEffect(() => {
+    if (!eventId) return;
+    fetchGuestNames(eventId).then(setNames);
+  }, [eventId]);
+
+  const currentId = currentGuest?.id;
+  const currentName = currentGuest?.name;
+
+  // Falls back to the name a moment or comment was shared under, for
+  // guests who joined after the names were fetched
+  return useCallback(
+    (guestId: string, sharedAs: string | null) => {
+      if (currentId && guestId === currentId) return currentName ?? null;
+      return guestId in names ? names[guestId] : sharedAs;
+    },
+    [names, currentId, currentName]
+  );
+};
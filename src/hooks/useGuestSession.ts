@@ -67,7 +67,7 @@ export const useGuestSession = () => {
   }, []);
 
   const createGuestSession = async (
-    weddingEventId: string, 
+    eventCode: string,
     guestName: string | null
   ): Promise<{ success: boolean; error?: string }> => {
     try {
@@ -78,15 +78,11 @@ export const useGuestSession = () => {
         return { success: false, error: authError?.message || "Failed to create session" };
       }
 
-      // Create guest record with id matching auth.uid()
-      const { error: guestError } = await supabase
-        .from("guests")
-        .insert({
-          id: authData.user.id, // Match anonymous user ID
-          wedding_event_id: weddingEventId,
-          guest_name: guestName,
-          session_token: crypto.randomUUID(), // Keep for backwards compat
-        });
+      // Join by code, creating the guest record with id matching auth.uid()
+      const { data: weddingEventId, error: guestError } = await supabase.rpc("join_event", {
+        code: eventCode,
+        name: guestName ?? undefined,
+      });
 
       if (guestError) {
         // Clean up auth session on failure
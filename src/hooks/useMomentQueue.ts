@@ -0,0 +1,212 @@
+import { useState, useEffect, useRef, useCallback } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import {
+  CaptureSource,
+  QueuedMoment,
+  deleteQueuedMoment,
+  getQueuedMoments,
+  isAbortError,
+  isPermanentMomentError,
+  momentPaths,
+  nextRetryDelay,
+  putQueuedMoment,
+  sendMoment,
+} from "@/lib/momentQueue";
+import type { Renditions } from "@/lib/media";
+
+export interface NewMoment {
+  id: string;
+  eventId: string;
+  guestId: string;
+  file: Blob;
+  extension: string;
+  contentType: string;
+  poster?: Blob;
+  renditions: Renditions;
+  caption: string | null;
+  takenAt: Date | null;
+  captureSource: CaptureSource;
+}
+
+export type MomentSendResult =
+  | { status: "sent"; remaining: number | null }
+  | { status: "queued" }
+  | { status: "cancelled" }
+  | { status: "failed"; error: { message: string } };
+
+interface MomentQueueCallbacks {
+  onSent?: (moment: QueuedMoment, remaining: number | null) => void;
+  onFailed?: (moment: QueuedMoment, error: { message: string }) => void;
+  onCancelFailed?: (moment: QueuedMoment, error: { message: string }) => void;
+}
+
+export const useMomentQueue = (guestId: string | undefined, callbacks: MomentQueueCallbacks = {}) => {
+  const [pending, setPending] = useState<QueuedMoment[]>([]);
+  const [sendingId, setSendingId] = useState<string | null>(null);
+  const [progress, setProgress] = useState<Record<string, number>>({});
+  // Attempts on their way, with a way to stop them and to wait for them to end
+  const inFlight = useRef(new Map<string, { controller: AbortController; settled: Promise<void> }>());
+  const callbacksRef = useRef(callbacks);
+  callbacksRef.current = callbacks;
+
+  const refresh = useCallback(async () => {
+    if (!guestId) return [];
+    const moments = await getQueuedMoments(guestId);
+    setPending(moments);
+    return moments;
+  }, [guestId]);
+
+  // Try one moment once. Retryable failures go back in the queue with backoff.
+  const attempt = useCallback(async (
+    moment: QueuedMoment,
+    onProgress?: (fraction: number) => void
+  ): Promise<MomentSendResult> => {
+    if (inFlight.current.has(moment.id)) return { status: "queued" };
+    const controller = new AbortController();
+    let settle = () => {};
+    const settled = new Promise<void>((resolve) => (settle = resolve));
+    inFlight.current.set(moment.id, { controller, settled });
+    setSendingId(moment.id);
+
+    try {
+      const remaining = await sendMoment(moment, {
+        signal: controller.signal,
+        onProgress: (fraction) => {
+          setProgress((prev) => ({ ...prev, [moment.id]: fraction }));
+          onProgress?.(fraction);
+        },
+      });
+      await deleteQueuedMoment(moment.id);
+      // Cancelled while share_moment was on its way: cancel() undoes the commit
+      if (controller.signal.aborted) return { status: "cancelled" };
+      return { status: "sent", remaining };
+    } catch (error) {
+      // cancel() removes it from the queue once this attempt has settled
+      if (isAbortError(error)) return { status: "cancelled" };
+
+      const message = (error as Error)?.message || "Upload failed";
+
+      if (isPermanentMomentError(error)) {
+        await deleteQueuedMoment(moment.id);
+        return { status: "failed", error: { message } };
+      }
+
+      const attempts = moment.attempts + 1;
+      await putQueuedMoment({
+        ...moment,
+        attempts,
+        nextAttemptAt: Date.now() + nextRetryDelay(attempts),
+        lastError: message,
+      });
+      return { status: "queued" };
+    } finally {
+      inFlight.current.delete(moment.id);
+      settle();
+      setSendingId(null);
+      setProgress(({ [moment.id]: _done, ...rest }) => rest);
+      await refresh();
+    }
+  }, [refresh]);
+
+  // Send everything that is due, one at a time to keep phone bandwidth sane.
+  // Callbacks only fire here, for moments sent in the background.
+  const flush = useCallback(async (force = false) => {
+    const moments = await refresh();
+    if (!navigator.onLine) return;
+
+    for (const moment of moments) {
+      if (!force && moment.nextAttemptAt > Date.now()) continue;
+
+      const result = await attempt(moment);
+      if (result.status === "sent") {
+        callbacksRef.current.onSent?.(moment, result.remaining);
+      } else if (result.status === "failed") {
+        callbacksRef.current.onFailed?.(moment, result.error);
+      }
+    }
+  }, [refresh, attempt]);
+
+  const enqueue = useCallback(async (
+    input: NewMoment,
+    onProgress?: (fraction: number) => void
+  ): Promise<MomentSendResult> => {
+    const folder = `${input.eventId}/${input.guestId}`;
+    const moment: QueuedMoment = {
+      id: input.id,
+      eventId: input.eventId,
+      guestId: input.guestId,
+      file: input.file,
+      path: `${folder}/${input.id}.${input.extension}`,
+      contentType: input.contentType,
+      poster: input.poster,
+      posterPath: input.poster ? `${folder}/${input.id}.poster.jpg` : undefined,
+      thumbnail: input.renditions.thumbnail,
+      thumbnailPath: input.renditions.thumbnail ? `${folder}/${input.id}.thumb.jpg` : undefined,
+      medium: input.renditions.medium,
+      mediumPath: input.renditions.medium ? `${folder}/${input.id}.medium.jpg` : undefined,
+      caption: input.caption,
+      takenAt: input.takenAt?.toISOString() ?? null,
+      captureSource: input.captureSource,
+      queuedAt: Date.now(),
+      attempts: 0,
+      nextAttemptAt: Date.now(),
+    };
+
+    await putQueuedMoment(moment);
+    await refresh();
+
+    if (!navigator.onLine) return { status: "queued" };
+    return attempt(moment, onProgress);
+  }, [refresh, attempt]);
+
+  // Cancel a queued moment, aborting its upload if it is on its way. An
+  // attempt that already sent share_moment can't be stopped, so wait for it.
+  const cancel = useCallback(async (id: string) => {
+    const sending = inFlight.current.get(id);
+    const moment = pending.find((m) => m.id === id);
+    if (sending) {
+      sending.controller.abort();
+      await sending.settled;
+    }
+
+    // That attempt, or an earlier one whose reply was lost, may have committed
+    // the moment. Undo it first, refunding the moment, so no row points at
+    // removed files.
+    if (moment && (sending || moment.attempts > 0)) {
+      const { error } = await supabase.rpc("delete_moment", { photo_uuid: id });
+      if (error && error.code !== "P0002") {
+        callbacksRef.current.onCancelFailed?.(moment, error);
+        return;
+      }
+    }
+
+    await deleteQueuedMoment(id);
+    // An earlier attempt may have uploaded the file before failing to save the row
+    if (moment) {
+      await supabase.storage.from("wedding-photos").remove(momentPaths(moment));
+    }
+    await refresh();
+  }, [pending, refresh]);
+
+  // Retry when the connection comes back, and on load for anything left over
+  useEffect(() => {
+    if (!guestId) return;
+    flush();
+
+    const handleOnline = () => flush(true);
+    window.addEventListener("online", handleOnline);
+    return () => window.removeEventListener("online", handleOnline);
+  }, [guestId, flush]);
+
+  // Wake up for the next scheduled retry
+  useEffect(() => {
+    const waiting = pending.filter((m) => !inFlight.current.has(m.id));
+    if (waiting.length === 0) return;
+
+    const nextAt = Math.min(...waiting.map((m) => m.nextAttemptAt));
+    const timeout = setTimeout(() => flush(), Math.max(nextAt - Date.now(), 1000));
+    return () => clearTimeout(timeout);
+  }, [pending, flush]);
+
+  return { pending, sendingId, progress, enqueue, cancel, retryNow: () => flush(true) };
+};
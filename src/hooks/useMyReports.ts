@@ -0,0 +1,49 @@
+import { useState, useEffect, useCallback } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+
+export type MomentReport = Pick<Tables<"photo_reports">, "id" | "reason" | "resolution" | "created_at" | "resolved_at">;
+
+// The moments a guest has reported, and what the couple decided. Decisions
+// arrive live so the guest sees the outcome without reloading.
+export const useMyReports = (eventId: string | undefined, guestId: string | undefined) => {
+  const [reports, setReports] = useState<MomentReport[]>([]);
+
+  const refresh = useCallback(async () => {
+    if (!eventId || !guestId) return;
+
+    const { data, error } = await supabase
+      .from("photo_reports")
+      .select("id, reason, resolution, created_at, resolved_at")
+      .eq("guest_id", guestId)
+      .eq("wedding_event_id", eventId)
+      .order("created_at", { ascending: false });
+
+    if (!error && data) {
+      setReports(data);
+    }
+  }, [eventId, guestId]);
+
+  useEffect(() => {
+    if (!guestId) return;
+    refresh();
+
+    const channel = supabase
+      .channel("my-reports")
+      .on(
+        "postgres_changes",
+        { event: "UPDATE", schema: "public", table: "photo_reports", filter: `guest_id=eq.${guestId}` },
+        (payload) => {
+          const updated = payload.new as MomentReport;
+          setReports((prev) => prev.map((r) => (r.id === updated.id ? { ...r, ...updated } : r)));
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [guestId, refresh]);
+
+  return { reports, refresh };
+};
@@ -0,0 +1,114 @@
+import { useState, useEffect, useCallback, useMemo, useRef } from "react";
+import type { RealtimePostgresChangesPayload } from "@supabase/supabase-js";
+import { supabase } from "@/integrations/supabase/client";
+
+export interface PhotoComment {
+  id: string;
+  photo_id: string;
+  guest_id: string;
+  guest_name: string | null;
+  body: string;
+  created_at: string;
+}
+
+export const MAX_COMMENT_LENGTH = 500;
+
+// PostgREST returns at most this many rows per request
+const ROWS_PER_REQUEST = 1000;
+
+// Comment threads for the photos a feed shows, fetched as they scroll into
+// view. Like usePhotoReactions, feeds pass handleChange to their own realtime
+// channel.
+export const usePhotoComments = (eventId: string | undefined, photoIds: string[], guestId?: string) => {
+  const [comments, setComments] = useState<Record<string, PhotoComment>>({});
+  // Photos whose threads have been asked for. Replaced when the event changes.
+  const requestedRef = useRef(new Set<string>());
+
+  useEffect(() => {
+    requestedRef.current = new Set();
+    setComments({});
+  }, [eventId]);
+
+  useEffect(() => {
+    if (!eventId) return;
+    const requested = requestedRef.current;
+    const missing = photoIds.filter((id) => !requested.has(id));
+    if (missing.length === 0) return;
+    missing.forEach((id) => requested.add(id));
+
+    const fetchComments = async () => {
+      for (let from = 0; ; from += ROWS_PER_REQUEST) {
+        const { data, error } = await supabase
+          .from("photo_comments")
+          .select("id, photo_id, guest_id, guest_name, body, created_at")
+          .eq("wedding_event_id", eventId)
+          .in("photo_id", missing)
+          .order("id")
+          .range(from, from + ROWS_PER_REQUEST - 1);
+
+        // Dropped when the event changed meanwhile
+        if (requestedRef.current !== requested) return;
+        if (error || !data) {
+          missing.forEach((id) => requested.delete(id));
+          return;
+        }
+
+        setComments((prev) => ({ ...prev, ...Object.fromEntries(data.map((c) => [c.id, c])) }));
+        if (data.length < ROWS_PER_REQUEST) return;
+      }
+    };
+
+    fetchComments();
+  }, [eventId, photoIds]);
+
+  const handleChange = useCallback((payload: RealtimePostgresChangesPayload<PhotoComment>) => {
+    if (payload.eventType === "DELETE") {
+      // Under RLS only the primary key comes through
+      const deletedId = payload.old.id;
+      if (!deletedId) return;
+      setComments(({ [deletedId]: _removed, ...rest }) => rest);
+    } else {
+      setComments((prev) => ({ ...prev, [payload.new.id]: payload.new }));
+    }
+  }, []);
+
+  // Oldest first, so threads read top to bottom
+  const threads = useMemo(() => {
+    const byPhoto: Record<string, PhotoComment[]> = {};
+    for (const comment of Object.values(comments)) {
+      (byPhoto[comment.photo_id] ??= []).push(comment);
+    }
+    for (const thread of Object.values(byPhoto)) {
+      thread.sort((a, b) => a.created_at.localeCompare(b.created_at));
+    }
+    return byPhoto;
+  }, [comments]);
+
+  const getThread = useCallback((photoId: string) => threads[photoId] ?? [], [threads]);
+
+  const addComment = useCallback(async (photoId: string, body: string) => {
+    if (!eventId || !guestId) return null;
+
+    const { data, error } = await supabase
+      .from("photo_comments")
+      .insert({ photo_id: photoId, wedding_event_id: eventId, guest_id: guestId, body: body.trim() })
+      .select("id, photo_id, guest_id, guest_name, body, created_at")
+      .single();
+
+    if (!error && data) {
+      setComments((prev) => ({ ...prev, [data.id]: data }));
+    }
+    return error;
+  }, [eventId, guestId]);
+
+  const deleteComment = useCallback(async (commentId: string) => {
+    const { error } = await supabase.from("photo_comments").delete().eq("id", commentId);
+
+    if (!error) {
+      setComments(({ [commentId]: _removed, ...rest }) => rest);
+    }
+    return error;
+  }, []);
+
+  return { getThread, addComment, deleteComment, handleChange };
+};
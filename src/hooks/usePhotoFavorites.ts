@@ -0,0 +1,58 @@
+import { useState, useEffect, useCallback } from "react";
+import { supabase } from "@/integrations/supabase/client";
+
+// The moments a guest has saved to their album
+export const usePhotoFavorites = (eventId: string | undefined, guestId: string | undefined) => {
+  const [favoriteIds, setFavoriteIds] = useState<Set<string>>(new Set());
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    if (!eventId || !guestId) return;
+
+    const fetchFavorites = async () => {
+      const { data, error } = await supabase
+        .from("photo_favorites")
+        .select("photo_id")
+        .eq("guest_id", guestId)
+        .eq("wedding_event_id", eventId);
+
+      if (!error && data) {
+        setFavoriteIds(new Set(data.map((f) => f.photo_id)));
+      }
+      setLoading(false);
+    };
+
+    fetchFavorites();
+  }, [eventId, guestId]);
+
+  const withFavorite = (ids: Set<string>, photoId: string, saved: boolean) => {
+    const next = new Set(ids);
+    if (saved) next.add(photoId);
+    else next.delete(photoId);
+    return next;
+  };
+
+  // Returns the error, if any, after undoing the optimistic change
+  const toggleFavorite = useCallback(async (photoId: string) => {
+    if (!eventId || !guestId) return null;
+    const saving = !favoriteIds.has(photoId);
+    setFavoriteIds((prev) => withFavorite(prev, photoId, saving));
+
+    const { error } = saving
+      ? await supabase
+          .from("photo_favorites")
+          .insert({ photo_id: photoId, wedding_event_id: eventId, guest_id: guestId })
+      : await supabase
+          .from("photo_favorites")
+          .delete()
+          .eq("photo_id", photoId)
+          .eq("guest_id", guestId);
+
+    if (error) {
+      setFavoriteIds((prev) => withFavorite(prev, photoId, !saving));
+    }
+    return error;
+  }, [eventId, guestId, favoriteIds]);
+
+  return { favoriteIds, loading, isFavorite: (photoId: string) => favoriteIds.has(photoId), toggleFavorite };
+};
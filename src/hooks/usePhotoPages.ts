@@ -0,0 +1,156 @@
+import { useState, useEffect, useCallback, useRef } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+import { insertByTakenAt } from "@/lib/moments";
+
+export type PhotoRow = Tables<"photos">;
+
+export const PHOTO_PAGE_SIZE = 24;
+
+export type MediaType = "photo" | "video";
+
+// Narrow a feed to one guest's moments, one kind of media and/or one status
+// (the couple's review screen shows only pending moments)
+export interface PhotoFilters {
+  guestId?: string | null;
+  mediaType?: MediaType | null;
+  status?: string | null;
+}
+
+interface Cursor {
+  taken_at: string;
+  id: string;
+}
+
+// An event's photos, newest taken first, a page at a time. Pages are keyed on
+// (taken_at, id) rather than offsets so moments arriving mid-scroll don't
+// shift the next page. signPage adds URLs to a whole page in one go; pass a
+// module-level function so it stays stable.
+export const usePhotoPages = <T extends PhotoRow>(
+  eventId: string | undefined,
+  signPage: (photos: PhotoRow[]) => Promise<T[]>,
+  { guestId, mediaType, status }: PhotoFilters = {}
+) => {
+  const [photos, setPhotos] = useState<T[]>([]);
+  const [total, setTotal] = useState(0);
+  const [loading, setLoading] = useState(true);
+  const [hasMore, setHasMore] = useState(false);
+  const photosRef = useRef<T[]>([]);
+  const cursorRef = useRef<Cursor | null>(null);
+  const loadingMoreRef = useRef(false);
+  const hasMoreRef = useRef(false);
+  // Responses for a previous event are dropped
+  const generationRef = useRef(0);
+
+  useEffect(() => {
+    photosRef.current = photos;
+  }, [photos]);
+
+  const fetchPage = useCallback(async (cursor: Cursor | null) => {
+    let query = supabase
+      .from("photos")
+      .select("*", { count: cursor ? undefined : "exact" })
+      .eq("wedding_event_id", eventId)
+      .match({
+        ...(guestId ? { guest_id: guestId } : {}),
+        ...(mediaType ? { media_type: mediaType } : {}),
+        ...(status ? { status } : {}),
+      })
+      .order("taken_at", { ascending: false })
+      .order("id", { ascending: false })
+      .limit(PHOTO_PAGE_SIZE);
+
+    if (cursor) {
+      query = query.or(
+        `taken_at.lt."${cursor.taken_at}",and(taken_at.eq."${cursor.taken_at}",id.lt.${cursor.id})`
+      );
+    }
+
+    const { data, error, count } = await query;
+    if (error || !data) return null;
+
+    const last = data[data.length - 1];
+    if (last) cursorRef.current = { taken_at: last.taken_at, id: last.id };
+    hasMoreRef.current = data.length === PHOTO_PAGE_SIZE;
+
+    return { page: await signPage(data), count };
+  }, [eventId, guestId, mediaType, status, signPage]);
+
+  useEffect(() => {
+    if (!eventId) return;
+    const generation = ++generationRef.current;
+
+    setLoading(true);
+    setPhotos([]);
+    cursorRef.current = null;
+
+    fetchPage(null).then((result) => {
+      if (generation !== generationRef.current) return;
+      if (result) {
+        setPhotos(result.page);
+        setTotal(result.count ?? result.page.length);
+      }
+      setHasMore(hasMoreRef.current);
+      setLoading(false);
+    });
+  }, [eventId, fetchPage]);
+
+  const loadMore = useCallback(async () => {
+    if (!hasMoreRef.current || loadingMoreRef.current) return;
+    const generation = generationRef.current;
+    loadingMoreRef.current = true;
+
+    const result = await fetchPage(cursorRef.current);
+    loadingMoreRef.current = false;
+    if (generation !== generationRef.current || !result) return;
+
+    setPhotos((prev) => {
+      const known = new Set(prev.map((p) => p.id));
+      return [...prev, ...result.page.filter((p) => !known.has(p.id))];
+    });
+    setHasMore(hasMoreRef.current);
+  }, [fetchPage]);
+
+  // A realtime insert. Moments older than everything loaded so far are left
+  // for a later page, where they'll turn up in order.
+  const addPhoto = useCallback(async (photo: PhotoRow) => {
+    if (guestId && photo.guest_id !== guestId) return;
+    if (mediaType && photo.media_type !== mediaType) return;
+    if (status && photo.status !== status) return;
+
+    const cursor = cursorRef.current;
+    setTotal((prev) => prev + 1);
+    if (hasMoreRef.current && cursor && new Date(photo.taken_at) < new Date(cursor.taken_at)) return;
+
+    const [signed] = await signPage([photo]);
+    setPhotos((prev) => (prev.some((p) => p.id === photo.id) ? prev : insertByTakenAt(prev, signed)));
+  }, [guestId, mediaType, status, signPage]);
+
+  const removePhoto = useCallback((photoId: string) => {
+    // Deletes can't be filtered by event, so only count ones we know about
+    if (!photosRef.current.some((p) => p.id === photoId)) return;
+    setTotal((count) => Math.max(count - 1, 0));
+    setPhotos((prev) => prev.filter((p) => p.id !== photoId));
+  }, []);
+
+  const updatePhoto = useCallback((photoId: string, changes: Partial<T>) => {
+    setPhotos((prev) => prev.map((p) => (p.id === photoId ? { ...p, ...changes } : p)));
+  }, []);
+
+  // A realtime update. A moment that has only just become visible to this
+  // viewer (approved, or restored by the couple) arrives as an update, not an
+  // insert. Every moment newer than the cursor is already loaded, so an
+  // unknown one there must be new to the viewer.
+  const syncPhoto = useCallback((photo: PhotoRow, changes: Partial<T>) => {
+    if (photosRef.current.some((p) => p.id === photo.id)) {
+      updatePhoto(photo.id, changes);
+      return;
+    }
+
+    const cursor = cursorRef.current;
+    if (hasMoreRef.current && cursor && new Date(photo.taken_at) < new Date(cursor.taken_at)) return;
+    addPhoto(photo);
+  }, [addPhoto, updatePhoto]);
+
+  return { photos, total, loading, hasMore, loadMore, addPhoto, removePhoto, updatePhoto, syncPhoto };
+};
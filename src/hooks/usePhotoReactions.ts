@@ -0,0 +1,123 @@
+import { useState, useEffect, useCallback, useMemo, useRef } from "react";
+import type { RealtimePostgresChangesPayload } from "@supabase/supabase-js";
+import { supabase } from "@/integrations/supabase/client";
+import { EMPTY_REACTIONS, ReactionEmoji, ReactionSummary } from "@/lib/reactions";
+
+interface PhotoReaction {
+  id: string;
+  photo_id: string;
+  guest_id: string;
+  emoji: string;
+}
+
+// PostgREST returns at most this many rows per request
+const ROWS_PER_REQUEST = 1000;
+
+// Reactions for the photos a feed has loaded, fetched as its pages arrive.
+// Feeds pass handleChange to their own realtime channel so counts update live
+// without a second subscription.
+export const usePhotoReactions = (eventId: string | undefined, photoIds: string[], guestId?: string) => {
+  const [reactions, setReactions] = useState<Record<string, PhotoReaction>>({});
+  // Photos whose reactions have been asked for. Replaced when the event changes.
+  const requestedRef = useRef(new Set<string>());
+
+  useEffect(() => {
+    requestedRef.current = new Set();
+    setReactions({});
+  }, [eventId]);
+
+  useEffect(() => {
+    if (!eventId) return;
+    const requested = requestedRef.current;
+    const missing = photoIds.filter((id) => !requested.has(id));
+    if (missing.length === 0) return;
+    missing.forEach((id) => requested.add(id));
+
+    const fetchReactions = async () => {
+      for (let from = 0; ; from += ROWS_PER_REQUEST) {
+        const { data, error } = await supabase
+          .from("photo_reactions")
+          .select("id, photo_id, guest_id, emoji")
+          .eq("wedding_event_id", eventId)
+          .in("photo_id", missing)
+          .order("id")
+          .range(from, from + ROWS_PER_REQUEST - 1);
+
+        // Dropped when the event changed meanwhile
+        if (requestedRef.current !== requested) return;
+        if (error || !data) {
+          missing.forEach((id) => requested.delete(id));
+          return;
+        }
+
+        setReactions((prev) => ({ ...prev, ...Object.fromEntries(data.map((r) => [r.id, r])) }));
+        if (data.length < ROWS_PER_REQUEST) return;
+      }
+    };
+
+    fetchReactions();
+  }, [eventId, photoIds]);
+
+  const handleChange = useCallback((payload: RealtimePostgresChangesPayload<PhotoReaction>) => {
+    if (payload.eventType === "DELETE") {
+      // Under RLS only the primary key comes through
+      const deletedId = payload.old.id;
+      if (!deletedId) return;
+      setReactions(({ [deletedId]: _removed, ...rest }) => rest);
+    } else {
+      setReactions((prev) => ({ ...prev, [payload.new.id]: payload.new }));
+    }
+  }, []);
+
+  const summaries = useMemo(() => {
+    const byPhoto: Record<string, ReactionSummary> = {};
+    for (const reaction of Object.values(reactions)) {
+      const summary = (byPhoto[reaction.photo_id] ??= { counts: {}, total: 0, mine: null });
+      const emoji = reaction.emoji as ReactionEmoji;
+      summary.counts[emoji] = (summary.counts[emoji] ?? 0) + 1;
+      summary.total += 1;
+      if (reaction.guest_id === guestId) summary.mine = emoji;
+    }
+    return byPhoto;
+  }, [reactions, guestId]);
+
+  const getSummary = useCallback(
+    (photoId: string) => summaries[photoId] ?? EMPTY_REACTIONS,
+    [summaries]
+  );
+
+  // Tap an emoji to react, tap it again to take the reaction back
+  const toggleReaction = useCallback(async (photoId: string, emoji: ReactionEmoji) => {
+    if (!eventId || !guestId) return;
+
+    const existing = Object.values(reactions).find(
+      (r) => r.photo_id === photoId && r.guest_id === guestId
+    );
+
+    if (existing?.emoji === emoji) {
+      setReactions(({ [existing.id]: _removed, ...rest }) => rest);
+      const { error } = await supabase.from("photo_reactions").delete().eq("id", existing.id);
+      if (error) setReactions((prev) => ({ ...prev, [existing.id]: existing }));
+      return;
+    }
+
+    if (existing) {
+      setReactions((prev) => ({ ...prev, [existing.id]: { ...existing, emoji } }));
+      const { error } = await supabase.from("photo_reactions").update({ emoji }).eq("id", existing.id);
+      if (error) setReactions((prev) => ({ ...prev, [existing.id]: existing }));
+      return;
+    }
+
+    const { data, error } = await supabase
+      .from("photo_reactions")
+      .insert({ photo_id: photoId, wedding_event_id: eventId, guest_id: guestId, emoji })
+      .select("id, photo_id, guest_id, emoji")
+      .single();
+
+    if (!error && data) {
+      setReactions((prev) => ({ ...prev, [data.id]: data }));
+    }
+  }, [eventId, guestId, reactions]);
+
+  return { getSummary, toggleReaction, handleChange };
+};
@@ -0,0 +1,72 @@
+import { useState, useEffect, useLayoutEffect, useCallback, useRef } from "react";
+
+// Full-screen swipe feeds keep only the cards near the current one in the
+// DOM; the rest are stood in for by spacers of the same height. Every card is
+// exactly one container tall, so positions are simple multiples.
+export const useWindowedFeed = (items: { id: string }[], overscan = 2) => {
+  // A callback ref: the scroll container only mounts once the first page is in
+  const [container, containerRef] = useState<HTMLElement | null>(null);
+  const [currentIndex, setCurrentIndex] = useState(0);
+  const [itemHeight, setItemHeight] = useState(0);
+  const itemsRef = useRef(items);
+  // The card on screen, so it can be kept there when cards are added above it
+  const anchorIdRef = useRef<string | null>(null);
+
+  useEffect(() => {
+    if (!container) return;
+
+    const measure = () => setItemHeight(container.clientHeight);
+    measure();
+    const observer = new ResizeObserver(measure);
+    observer.observe(container);
+    return () => observer.disconnect();
+  }, [container]);
+
+  const handleScroll = useCallback(() => {
+    if (!container || !container.clientHeight) return;
+
+    const index = Math.min(
+      Math.round(container.scrollTop / container.clientHeight),
+      Math.max(itemsRef.current.length - 1, 0)
+    );
+    anchorIdRef.current = itemsRef.current[index]?.id ?? null;
+    setCurrentIndex(index);
+  }, [container]);
+
+  // Realtime inserts above the current card would push it down the feed;
+  // jump by the same amount before paint so nobody notices
+  useLayoutEffect(() => {
+    itemsRef.current = items;
+    const anchorId = anchorIdRef.current;
+    if (!container) return;
+    if (!anchorId) {
+      anchorIdRef.current = items[0]?.id ?? null;
+      return;
+    }
+
+    const index = items.findIndex((item) => item.id === anchorId);
+    if (index === -1) {
+      handleScroll();
+      return;
+    }
+
+    const height = container.clientHeight;
+    if (Math.round(container.scrollTop / height) !== index) {
+      container.scrollTo({ top: index * height, behavior: "instant" });
+    }
+    setCurrentIndex(index);
+  }, [items, container, handleScroll]);
+
+  const start = Math.max(currentIndex - overscan, 0);
+  const end = Math.min(currentIndex + overscan + 1, items.length);
+
+  return {
+    containerRef,
+    currentIndex,
+    start,
+    end,
+    topSpacer: start * itemHeight,
+    bottomSpacer: (items.length - end) * itemHeight,
+    handleScroll,
+  };
+};
@@ -14,8 +14,50 @@ export type Database = {
   }
   public: {
     Tables: {
+      event_hosts: {
+        Row: {
+          accepted_at: string | null
+          created_at: string
+          email: string
+          id: string
+          invited_by: string | null
+          role: string
+          user_id: string | null
+          wedding_event_id: string
+        }
+        Insert: {
+          accepted_at?: string | null
+          created_at?: string
+          email: string
+          id?: string
+          invited_by?: string | null
+          role: string
+          user_id?: string | null
+          wedding_event_id: string
+        }
+        Update: {
+          accepted_at?: string | null
+          created_at?: string
+          email?: string
+          id?: string
+          invited_by?: string | null
+          role?: string
+          user_id?: string | null
+          wedding_event_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "event_hosts_wedding_event_id_fkey"
+            columns: ["wedding_event_id"]
+            isOneToOne: false
+            referencedRelation: "wedding_events"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       guests: {
         Row: {
+          bonus_moments: number
           created_at: string
           guest_name: string | null
           has_unlocked_feed: boolean
@@ -25,6 +67,7 @@ export type Database = {
           wedding_event_id: string
         }
         Insert: {
+          bonus_moments?: number
           created_at?: string
           guest_name?: string | null
           has_unlocked_feed?: boolean
@@ -34,6 +77,7 @@ export type Database = {
           wedding_event_id: string
         }
         Update: {
+          bonus_moments?: number
           created_at?: string
           guest_name?: string | null
           has_unlocked_feed?: boolean
@@ -52,32 +96,255 @@ export type Database = {
           },
         ]
       }
+      photo_comments: {
+        Row: {
+          body: string
+          created_at: string
+          guest_id: string
+          guest_name: string | null
+          id: string
+          photo_id: string
+          wedding_event_id: string
+        }
+        Insert: {
+          body: string
+          created_at?: string
+          guest_id: string
+          guest_name?: string | null
+          id?: string
+          photo_id: string
+          wedding_event_id: string
+        }
+        Update: {
+          body?: string
+          created_at?: string
+          guest_id?: string
+          guest_name?: string | null
+          id?: string
+          photo_id?: string
+          wedding_event_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "photo_comments_guest_id_fkey"
+            columns: ["guest_id"]
+            isOneToOne: false
+            referencedRelation: "guests"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "photo_comments_photo_id_fkey"
+            columns: ["photo_id"]
+            isOneToOne: false
+            referencedRelation: "photos"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "photo_comments_wedding_event_id_fkey"
+            columns: ["wedding_event_id"]
+            isOneToOne: false
+            referencedRelation: "wedding_events"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      photo_favorites: {
+        Row: {
+          created_at: string
+          guest_id: string
+          id: string
+          photo_id: string
+          wedding_event_id: string
+        }
+        Insert: {
+          created_at?: string
+          guest_id: string
+          id?: string
+          photo_id: string
+          wedding_event_id: string
+        }
+        Update: {
+          created_at?: string
+          guest_id?: string
+          id?: string
+          photo_id?: string
+          wedding_event_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "photo_favorites_guest_id_fkey"
+            columns: ["guest_id"]
+            isOneToOne: false
+            referencedRelation: "guests"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "photo_favorites_photo_id_fkey"
+            columns: ["photo_id"]
+            isOneToOne: false
+            referencedRelation: "photos"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "photo_favorites_wedding_event_id_fkey"
+            columns: ["wedding_event_id"]
+            isOneToOne: false
+            referencedRelation: "wedding_events"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      photo_reactions: {
+        Row: {
+          created_at: string
+          emoji: string
+          guest_id: string
+          id: string
+          photo_id: string
+          wedding_event_id: string
+        }
+        Insert: {
+          created_at?: string
+          emoji: string
+          guest_id: string
+          id?: string
+          photo_id: string
+          wedding_event_id: string
+        }
+        Update: {
+          created_at?: string
+          emoji?: string
+          guest_id?: string
+          id?: string
+          photo_id?: string
+          wedding_event_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "photo_reactions_guest_id_fkey"
+            columns: ["guest_id"]
+            isOneToOne: false
+            referencedRelation: "guests"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "photo_reactions_photo_id_fkey"
+            columns: ["photo_id"]
+            isOneToOne: false
+            referencedRelation: "photos"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "photo_reactions_wedding_event_id_fkey"
+            columns: ["wedding_event_id"]
+            isOneToOne: false
+            referencedRelation: "wedding_events"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      photo_reports: {
+        Row: {
+          created_at: string
+          guest_id: string
+          id: string
+          photo_id: string | null
+          reason: string
+          resolution: string | null
+          resolved_at: string | null
+          wedding_event_id: string
+        }
+        Insert: {
+          created_at?: string
+          guest_id: string
+          id?: string
+          photo_id?: string | null
+          reason: string
+          resolution?: string | null
+          resolved_at?: string | null
+          wedding_event_id: string
+        }
+        Update: {
+          created_at?: string
+          guest_id?: string
+          id?: string
+          photo_id?: string | null
+          reason?: string
+          resolution?: string | null
+          resolved_at?: string | null
+          wedding_event_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "photo_reports_guest_id_fkey"
+            columns: ["guest_id"]
+            isOneToOne: false
+            referencedRelation: "guests"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "photo_reports_photo_id_fkey"
+            columns: ["photo_id"]
+            isOneToOne: false
+            referencedRelation: "photos"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "photo_reports_wedding_event_id_fkey"
+            columns: ["wedding_event_id"]
+            isOneToOne: false
+            referencedRelation: "wedding_events"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       photos: {
         Row: {
           caption: string | null
+          capture_source: string
           captured_at: string
           guest_id: string
           guest_name: string | null
           id: string
           image_url: string
+          media_type: string | null
+          medium_url: string | null
+          poster_url: string | null
+          status: string
+          taken_at: string
+          thumbnail_url: string | null
           wedding_event_id: string
         }
         Insert: {
           caption?: string | null
+          capture_source?: string
           captured_at?: string
           guest_id: string
           guest_name?: string | null
           id?: string
           image_url: string
+          media_type?: never
+          medium_url?: string | null
+          poster_url?: string | null
+          status?: string
+          taken_at?: string
+          thumbnail_url?: string | null
           wedding_event_id: string
         }
         Update: {
           caption?: string | null
+          capture_source?: string
           captured_at?: string
           guest_id?: string
           guest_name?: string | null
           id?: string
           image_url?: string
+          media_type?: never
+          medium_url?: string | null
+          poster_url?: string | null
+          status?: string
+          taken_at?: string
+          thumbnail_url?: string | null
           wedding_event_id?: string
         }
         Relationships: [
@@ -97,6 +364,32 @@ export type Database = {
           },
         ]
       }
+      retired_event_codes: {
+        Row: {
+          code: string
+          retired_at: string
+          wedding_event_id: string
+        }
+        Insert: {
+          code: string
+          retired_at?: string
+          wedding_event_id: string
+        }
+        Update: {
+          code?: string
+          retired_at?: string
+          wedding_event_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "retired_event_codes_wedding_event_id_fkey"
+            columns: ["wedding_event_id"]
+            isOneToOne: false
+            referencedRelation: "wedding_events"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       wedding_events: {
         Row: {
           couple_name: string
@@ -104,8 +397,15 @@ export type Database = {
           cover_image_url: string | null
           created_at: string
           event_code: string
+          event_name: string | null
           id: string
+          max_clip_seconds: number | null
+          moment_allowance: number | null
           partner_name: string
+          report_threshold: number
+          require_approval: boolean
+          require_in_app_camera: boolean
+          reveal_at: string | null
           updated_at: string
           wedding_date: string
         }
@@ -114,9 +414,16 @@ export type Database = {
           couple_user_id: string
           cover_image_url?: string | null
           created_at?: string
-          event_code: string
+          event_code?: string
+          event_name?: string | null
           id?: string
+          max_clip_seconds?: number | null
+          moment_allowance?: number | null
           partner_name: string
+          report_threshold?: number
+          require_approval?: boolean
+          require_in_app_camera?: boolean
+          reveal_at?: string | null
           updated_at?: string
           wedding_date: string
         }
@@ -126,8 +433,15 @@ export type Database = {
           cover_image_url?: string | null
           created_at?: string
           event_code?: string
+          event_name?: string | null
           id?: string
+          max_clip_seconds?: number | null
+          moment_allowance?: number | null
           partner_name?: string
+          report_threshold?: number
+          require_approval?: boolean
+          require_in_app_camera?: boolean
+          reveal_at?: string | null
           updated_at?: string
           wedding_date?: string
         }
@@ -138,14 +452,110 @@ export type Database = {
       [_ in never]: never
     }
     Functions: {
+      accept_event_invites: { Args: never; Returns: number }
+      claim_event_code: {
+        Args: { code: string; event_uuid: string }
+        Returns: string
+      }
+      current_guest_event_id: { Args: never; Returns: string }
+      delete_moment: { Args: { photo_uuid: string }; Returns: number }
+      event_code_available: {
+        Args: { code: string; event_uuid?: string }
+        Returns: boolean
+      }
+      event_code_in_use: {
+        Args: { code: string; except_event?: string }
+        Returns: boolean
+      }
+      event_guest_list: {
+        Args: { event_uuid: string }
+        Returns: {
+          bonus_moments: number
+          guest_id: string
+          guest_name: string
+          joined_at: string
+          last_active_at: string
+          moments_shared: number
+          photos_remaining: number
+        }[]
+      }
+      event_guest_names: {
+        Args: { event_uuid: string }
+        Returns: {
+          guest_id: string
+          guest_name: string
+        }[]
+      }
+      event_photographers: {
+        Args: { event_uuid: string }
+        Returns: {
+          guest_id: string
+          guest_name: string
+          moment_count: number
+        }[]
+      }
+      event_preview: {
+        Args: { code: string }
+        Returns: {
+          couple_name: string
+          cover_image_url: string
+          moment_allowance: number
+          partner_name: string
+        }[]
+      }
+      generate_event_code: {
+        Args: { couple_name: string; partner_name: string }
+        Returns: string
+      }
       get_guest_by_token: {
         Args: { session_token_value: string }
         Returns: string
       }
+      grant_guest_moments: {
+        Args: { extra: number; guest_uuid: string }
+        Returns: number
+      }
       guest_belongs_to_event: {
         Args: { event_uuid: string; guest_uuid: string }
         Returns: boolean
       }
+      guest_can_view_event_feed: {
+        Args: { event_uuid: string }
+        Returns: boolean
+      }
+      has_event_role: {
+        Args: { event_uuid: string; roles?: string[] }
+        Returns: boolean
+      }
+      is_valid_event_code: { Args: { code: string }; Returns: boolean }
+      join_event: { Args: { code: string; name?: string }; Returns: string }
+      moderate_moment: {
+        Args: { decision: string; photo_uuid: string }
+        Returns: undefined
+      }
+      report_moment: {
+        Args: { photo_uuid: string; reason_text: string }
+        Returns: string
+      }
+      review_moment: {
+        Args: { approved: boolean; photo_uuid: string }
+        Returns: undefined
+      }
+      rotate_event_code: { Args: { event_uuid: string }; Returns: string }
+      share_moment: {
+        Args: {
+          capture_source?: string
+          caption_text?: string
+          event_uuid: string
+          image_path: string
+          medium_path?: string
+          photo_uuid: string
+          poster_path?: string
+          taken_at_value?: string
+          thumbnail_path?: string
+        }
+        Returns: number
+      }
     }
     Enums: {
       [_ in never]: never
@@ -0,0 +1,71 @@
+import { downloadZip } from "client-zip";
+import { getSignedUrls } from "@/lib/photoUrls";
+
+// A moment as it goes into an archive: the original upload, named after
+// whoever shared it and when it was taken
+export interface ArchiveMoment {
+  image_url: string;
+  taken_at: string;
+  sharedBy: string | null;
+}
+
+export const momentFilename = (moment: ArchiveMoment) => {
+  const extension = moment.image_url.split(".").pop() || "jpg";
+  const guestName = moment.sharedBy?.replace(/[^a-zA-Z0-9]/g, "_") || "guest";
+  return `${guestName}_${new Date(moment.taken_at).getTime()}.${extension}`;
+};
+
+// Zip the originals in the browser. Files are fetched one at a time as the
+// archive is written, so progress moves as each one lands.
+export const buildAlbumArchive = async (
+  moments: ArchiveMoment[],
+  onProgress?: (done: number, total: number) => void
+): Promise<Blob> => {
+  const urls = await getSignedUrls(moments.map((m) => m.image_url), 600);
+  const used = new Set<string>();
+
+  async function* files() {
+    for (const [index, moment] of moments.entries()) {
+      const url = urls.get(moment.image_url);
+      if (!url) continue;
+
+      const response = await fetch(url);
+      if (!response.ok) continue;
+
+      // Two moments taken in the same millisecond by the same guest
+      const filename = momentFilename(moment);
+      let name = filename;
+      for (let n = 2; used.has(name); n++) name = filename.replace(/(\.[^.]+)$/, `_${n}$1`);
+      used.add(name);
+
+      yield { name, input: response, lastModified: new Date(moment.taken_at) };
+      onProgress?.(index + 1, moments.length);
+    }
+  }
+
+  return downloadZip(files()).blob();
+};
+
+// Phones can't always "download" a file; offer the share sheet (Save to
+// Files / Photos) where the browser supports sharing files
+export const saveArchive = async (archive: Blob, filename: string) => {
+  const file = new File([archive], filename, { type: "application/zip" });
+
+  if (navigator.canShare?.({ files: [file] })) {
+    try {
+      await navigator.share({ files: [file] });
+      return;
+    } catch (error) {
+      if ((error as Error).name === "AbortError") return;
+    }
+  }
+
+  const url = URL.createObjectURL(archive);
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = filename;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+};
@@ -0,0 +1,63 @@
+import { supabase } from "@/integrations/supabase/client";
+
+// Covers are cropped to a wide banner and stored at this size
+export const COVER_ASPECT = 16 / 9;
+const COVER_WIDTH = 1600;
+
+// A region of the source image, in its own pixels
+export interface CoverCrop {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// Draw the cropped region as a JPEG. Decoding "from-image" bakes the EXIF
+// orientation into the pixels, matching what the cropper showed.
+export const renderCover = async (image: Blob, crop: CoverCrop): Promise<Blob> => {
+  const bitmap = await createImageBitmap(image, { imageOrientation: "from-image" });
+
+  try {
+    // Only downscale, never upscale
+    const width = Math.min(COVER_WIDTH, Math.round(crop.width));
+    const height = Math.round(width / COVER_ASPECT);
+
+    const canvas = document.createElement("canvas");
+    canvas.width = width;
+    canvas.height = height;
+
+    const ctx = canvas.getContext("2d");
+    if (!ctx) throw new Error("Canvas is not available.");
+    ctx.drawImage(bitmap, crop.x, crop.y, crop.width, crop.height, 0, 0, width, height);
+
+    return await new Promise<Blob>((resolve, reject) => {
+      canvas.toBlob(
+        (blob) => (blob ? resolve(blob) : reject(new Error("Couldn't save this cover."))),
+        "image/jpeg",
+        0.85
+      );
+    });
+  } finally {
+    bitmap.close();
+  }
+};
+
+// Each upload gets a new name, so a replaced cover is never served from cache
+export const uploadCover = async (eventId: string, cover: Blob): Promise<string> => {
+  const path = `${eventId}/${Date.now()}.jpg`;
+  const { error } = await supabase.storage
+    .from("event-covers")
+    .upload(path, cover, { contentType: "image/jpeg" });
+
+  if (error) throw error;
+  return supabase.storage.from("event-covers").getPublicUrl(path).data.publicUrl;
+};
+
+// Best effort: a cover left behind is only a stray file
+export const removeCover = async (coverUrl: string) => {
+  const path = coverUrl.split("/event-covers/")[1];
+  if (!path) return;
+
+  const { error } = await supabase.storage.from("event-covers").remove([decodeURIComponent(path)]);
+  if (error) console.error("Error removing cover:", error);
+};
@@ -0,0 +1,164 @@
+import { makeZip } from "client-zip";
+import { format } from "date-fns";
+import { signUrls } from "@/lib/photoUrls";
+
+// A moment as it goes into the couple's export
+export interface ExportMoment {
+  id: string;
+  image_url: string;
+  taken_at: string;
+  caption: string | null;
+  guest_id: string;
+  sharedBy: string | null;
+}
+
+// Most moments per ZIP. Each volume is a complete archive on its own, so an
+// interrupted export starts again from the volume it stopped in, not from
+// the first moment. Most weddings fit in one.
+export const ARCHIVE_VOLUME_SIZE = 250;
+
+// Most bytes per ZIP. Volumes streamed into a folder never sit in memory;
+// downloaded ones are built in memory before they're saved, so they're kept
+// small. A single larger file still gets a volume of its own.
+export const STREAMED_VOLUME_BYTES = 2 * 1024 ** 3;
+export const BUFFERED_VOLUME_BYTES = 100 * 1024 ** 2;
+
+const slugify = (text: string, maxLength: number) =>
+  text
+    .normalize("NFKD")
+    .replace(/[^\w\s-]/g, "")
+    .trim()
+    .replace(/[\s_]+/g, "-")
+    .slice(0, maxLength)
+    .replace(/-+$/, "");
+
+// "Emma/2026-06-14_18-32-05_first-dance.jpg". Worked out over the whole
+// export up front, so a resumed volume names its files exactly as before.
+export const archivePaths = (moments: ExportMoment[]) => {
+  const folders = new Map<string, string>();
+  const usedFolders = new Set<string>();
+  const usedPaths = new Set<string>();
+  const paths = new Map<string, string>();
+
+  for (const moment of moments) {
+    let folder = folders.get(moment.guest_id);
+    if (!folder) {
+      const name = (moment.sharedBy && slugify(moment.sharedBy, 40)) || "Guest";
+      // Two guests with the same name get a folder each
+      folder = usedFolders.has(name) ? `${name}-${moment.guest_id.slice(0, 6)}` : name;
+      folders.set(moment.guest_id, folder);
+      usedFolders.add(folder);
+    }
+
+    const extension = moment.image_url.split(".").pop() || "jpg";
+    const caption = moment.caption ? slugify(moment.caption, 40) : "";
+    const base = `${folder}/${format(new Date(moment.taken_at), "yyyy-MM-dd_HH-mm-ss")}${caption ? `_${caption}` : ""}`;
+
+    let path = `${base}.${extension}`;
+    for (let n = 2; usedPaths.has(path); n++) path = `${base}_${n}.${extension}`;
+    usedPaths.add(path);
+    paths.set(moment.id, path);
+  }
+
+  return paths;
+};
+
+const csvField = (value: string) => (/[",\n\r]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value);
+
+// Who shared what, when, and what they wrote about it. Every volume carries
+// the whole manifest, so extracting them into one folder leaves one copy.
+export const buildManifest = (moments: ExportMoment[], paths: Map<string, string>) => {
+  const rows = moments.map((moment) => ({
+    file: paths.get(moment.id) ?? "",
+    guest: moment.sharedBy ?? "",
+    taken_at: moment.taken_at,
+    caption: moment.caption ?? "",
+  }));
+
+  const csv = [
+    "file,guest,taken_at,caption",
+    ...rows.map((row) => [row.file, row.guest, row.taken_at, row.caption].map(csvField).join(",")),
+  ].join("\n");
+
+  return { csv, json: JSON.stringify(rows, null, 2) };
+};
+
+// One volume as a ZIP stream, from the first of the given moments until it
+// reaches maxBytes. Files are fetched one at a time as the stream is read, so
+// nothing is held in memory longer than it takes to write it. Once the stream
+// is done, included() says how many moments went into the volume.
+// A file that is gone from storage is left out; anything else (a dropped
+// connection, a server error, an expired URL) fails the volume so it can be
+// resumed.
+export const archiveVolumeStream = (
+  moments: ExportMoment[],
+  paths: Map<string, string>,
+  manifest: { csv: string; json: string },
+  maxBytes: number,
+  onFile?: () => void
+) => {
+  let included = 0;
+
+  async function* entries() {
+    yield { name: "manifest.csv", input: manifest.csv };
+    yield { name: "manifest.json", input: manifest.json };
+
+    // Signed per volume, so a long export never outlives its URLs
+    const urls = await signUrls(moments.map((m) => m.image_url));
+    let bytes = 0;
+
+    for (const moment of moments) {
+      const url = urls.get(moment.image_url);
+      const response = url ? await fetch(url) : null;
+
+      if (response && !response.ok && response.status !== 404) {
+        throw new Error(`Couldn't download ${paths.get(moment.id)} (${response.status})`);
+      }
+      if (response?.ok) {
+        const size = Number(response.headers.get("content-length")) || 0;
+        // Full: this moment starts the next volume
+        if (bytes > 0 && bytes + size > maxBytes) {
+          await response.body?.cancel();
+          return;
+        }
+        bytes += size;
+        yield { name: paths.get(moment.id), input: response, lastModified: new Date(moment.taken_at) };
+      }
+      included++;
+      onFile?.();
+    }
+  }
+
+  return { stream: makeZip(entries()), included: () => included };
+};
+
+// What has been exported so far, so a reload can pick up where it stopped.
+// The moment ids are kept in order so a resumed export carries on with the
+// moment after the last finished volume.
+export interface ExportProgress {
+  momentIds: string[];
+  completedVolumes: number;
+  completedMoments: number;
+  startedAt: string;
+}
+
+const progressKey = (eventId: string) => `event-export:${eventId}`;
+
+export const loadExportProgress = (eventId: string): ExportProgress | null => {
+  try {
+    const saved = localStorage.getItem(progressKey(eventId));
+    if (!saved) return null;
+
+    const progress = JSON.parse(saved) as ExportProgress;
+    // Saved before volumes were sized by bytes, when each held a fixed number
+    progress.completedMoments ??= Math.min(progress.completedVolumes * ARCHIVE_VOLUME_SIZE, progress.momentIds.length);
+    return progress;
+  } catch {
+    return null;
+  }
+};
+
+export const saveExportProgress = (eventId: string, progress: ExportProgress) =>
+  localStorage.setItem(progressKey(eventId), JSON.stringify(progress));
+
+export const clearExportProgress = (eventId: string) => localStorage.removeItem(progressKey(eventId));
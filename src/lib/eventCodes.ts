@@ -0,0 +1,15 @@
+import { z } from "zod";
+
+// What the join screen accepts. Older codes can be short or oddly shaped.
+export const eventCodeSchema = z.string()
+  .min(1, "Event code is required")
+  .max(20, "Event code must be less than 20 characters")
+  .regex(/^[A-Z0-9-]+$/i, "Event code can only contain letters, numbers, and hyphens");
+
+// New codes, generated or claimed. Keep in sync with is_valid_event_code().
+export const vanityCodeSchema = z.string()
+  .trim()
+  .toUpperCase()
+  .min(4, "Codes need at least 4 characters")
+  .max(20, "Codes can be at most 20 characters")
+  .regex(/^[A-Z0-9]+(-[A-Z0-9]+)*$/, "Use letters and numbers, with single hyphens between them");
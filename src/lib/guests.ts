@@ -0,0 +1,42 @@
+import { z } from "zod";
+import { supabase } from "@/integrations/supabase/client";
+import { storedPaths } from "@/lib/photoUrls";
+
+// Display names are optional; blank means anonymous
+export const guestNameSchema = z.string()
+  .max(100, "Name must be less than 100 characters")
+  .regex(/^[a-zA-Z0-9\s'-]*$/, "Name can only contain letters, numbers, spaces, apostrophes, and hyphens")
+  .optional()
+  .transform(val => val?.trim() || null);
+
+// Current names of everyone in an event, by guest id. Photos and comments
+// keep the name they were shared under only as a fallback.
+export const fetchGuestNames = async (eventId: string): Promise<Record<string, string | null>> => {
+  const { data, error } = await supabase.rpc("event_guest_names", { event_uuid: eventId });
+
+  if (error || !data) return {};
+  return Object.fromEntries(data.map((guest) => [guest.guest_id, guest.guest_name]));
+};
+
+// Remove a guest with everything they shared. The database takes their
+// moments, comments and reactions with the guest row; their files go once
+// that has succeeded, so a failed delete never leaves moments without files.
+export const removeGuest = async (guestId: string) => {
+  const { data: photos, error: photosError } = await supabase
+    .from("photos")
+    .select("image_url, poster_url, thumbnail_url, medium_url")
+    .eq("guest_id", guestId);
+  if (photosError) throw photosError;
+
+  const { error } = await supabase.from("guests").delete().eq("id", guestId);
+  if (error) throw error;
+
+  if (photos.length > 0) {
+    const { error: storageError } = await supabase.storage
+      .from("wedding-photos")
+      .remove(photos.flatMap(storedPaths));
+    if (storageError) {
+      throw new Error(`The guest was removed, but some of their files couldn't be deleted: ${storageError.message}`);
+    }
+  }
+};
@@ -0,0 +1,28 @@
+import { supabase } from "@/integrations/supabase/client";
+
+// Keep in sync with event_hosts_role_check and the policies that use has_event_role()
+export const HOST_ROLES = [
+  { value: "owner", label: "Owner", description: "Everything, including deleting the event" },
+  { value: "co_host", label: "Co-host", description: "Settings, guests, moderation and inviting hosts" },
+  { value: "planner", label: "Planner", description: "Sees everything and moderates moments" },
+  { value: "photographer", label: "Photographer", description: "Sees and downloads every moment" },
+] as const;
+
+export type HostRole = (typeof HOST_ROLES)[number]["value"];
+
+export const hostRoleLabel = (role: string) => HOST_ROLES.find((r) => r.value === role)?.label ?? role;
+
+// What each role may do. The database enforces the same split.
+export const canManageEvent = (role: HostRole) => role === "owner" || role === "co_host";
+
+export const canModerate = (role: HostRole) => canManageEvent(role) || role === "planner";
+
+export const canDeleteEvent = (role: HostRole) => role === "owner";
+
+// Invites are accepted by signing in with the invited email. Sending a
+// sign-in link gets the invitee there in one tap, with or without an account.
+export const sendHostInvite = (email: string) =>
+  supabase.auth.signInWithOtp({
+    email,
+    options: { emailRedirectTo: `${window.location.origin}/dashboard` },
+  });
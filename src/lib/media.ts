@@ -0,0 +1,157 @@
+import { readPhotoMetadata, scrubVideoMetadata, stripJpegMetadata } from "@/lib/metadata";
+import { UnsupportedMediaError, inspectMediaFile } from "@/lib/mediaFormats";
+
+// A file ready to store: metadata stripped, plus when it was actually taken
+export interface PreparedMedia {
+  file: File;
+  takenAt: Date | null;
+}
+
+const isJpeg = (file: Blob) => file.type === "image/jpeg" || file.type === "image/jpg";
+
+// Most browsers other than Safari can't decode HEIC, so convert it with
+// libheif. Loaded on demand - it is large and most photos don't need it.
+// Cached per file, since the preview and the upload both need the result.
+const heicConversions = new WeakMap<Blob, Promise<Blob>>();
+
+const convertHeicToJpeg = (file: Blob): Promise<Blob> => {
+  let conversion = heicConversions.get(file);
+  if (!conversion) {
+    conversion = import("heic2any").then(async ({ default: heic2any }) => {
+      const converted = await heic2any({ blob: file, toType: "image/jpeg", quality: 0.9 });
+      return Array.isArray(converted) ? converted[0] : converted;
+    });
+    heicConversions.set(file, conversion);
+  }
+  return conversion;
+};
+
+const HEIC_CONVERSION_FAILED = "This HEIC photo couldn't be converted. Try sharing it as a JPEG instead.";
+
+// Something an <img> can show: the file itself, or a JPEG of a HEIC photo
+export const displayableImage = async (file: File): Promise<Blob> => {
+  if (!inspectMediaFile(file).needsConversion) return file;
+
+  try {
+    (await createImageBitmap(file)).close();
+    return file;
+  } catch {
+    return convertHeicToJpeg(file).catch(() => {
+      throw new UnsupportedMediaError(HEIC_CONVERSION_FAILED);
+    });
+  }
+};
+
+const renameTo = (blob: Blob, name: string, type: string) =>
+  new File([blob], name, { type, lastModified: Date.now() });
+
+// Draw a decoded image as a JPEG at most maxWidth wide
+const drawJpeg = async (bitmap: ImageBitmap, maxWidth: number, quality: number): Promise<Blob> => {
+  let { width, height } = bitmap;
+
+  // Only downscale, never upscale
+  if (width > maxWidth) {
+    height = Math.round((height * maxWidth) / width);
+    width = maxWidth;
+  }
+
+  const canvas = document.createElement("canvas");
+  canvas.width = width;
+  canvas.height = height;
+
+  const ctx = canvas.getContext("2d");
+  if (!ctx) throw new Error("Canvas is not available.");
+  ctx.drawImage(bitmap, 0, 0, width, height);
+
+  return new Promise<Blob>((resolve, reject) => {
+    canvas.toBlob(
+      (blob) => (blob ? resolve(blob) : reject(new Error("Couldn't compress this photo."))),
+      "image/jpeg",
+      quality
+    );
+  });
+};
+
+// Re-encode to a JPEG at most maxWidth wide. Drawing through a canvas drops
+// every EXIF tag, and decoding "from-image" bakes the orientation into pixels.
+const reencodeImage = async (file: Blob, maxWidth: number, quality: number): Promise<Blob> => {
+  const bitmap = await createImageBitmap(file, { imageOrientation: "from-image" });
+
+  try {
+    return await drawJpeg(bitmap, maxWidth, quality);
+  } finally {
+    bitmap.close();
+  }
+};
+
+// Compress a photo client-side and strip its metadata (GPS, camera serials...)
+// before it leaves the device. The capture time is read first so the feed can
+// be ordered by when the photo was taken rather than when it was uploaded.
+export const prepareImage = async (file: File, maxWidth = 1920, quality = 0.8): Promise<PreparedMedia> => {
+  const { takenAt, orientation } = await readPhotoMetadata(file);
+  const name = file.name.replace(/\.[^.]+$/, "") + ".jpg";
+
+  // GIFs carry no EXIF, and re-encoding would lose the animation
+  if (file.type === "image/gif") {
+    return { file, takenAt };
+  }
+
+  let compressed: Blob;
+  try {
+    compressed = await reencodeImage(file, maxWidth, quality);
+  } catch {
+    // Safari decodes HEIC natively; elsewhere it needs converting first
+    if (inspectMediaFile(file).needsConversion) {
+      try {
+        compressed = await reencodeImage(await convertHeicToJpeg(file), maxWidth, quality);
+      } catch {
+        throw new UnsupportedMediaError(HEIC_CONVERSION_FAILED);
+      }
+      return { file: renameTo(compressed, name, "image/jpeg"), takenAt };
+    }
+
+    // The browser can't decode it; a JPEG can still be cleaned without decoding
+    if (isJpeg(file)) {
+      return { file: renameTo(await stripJpegMetadata(file, orientation), name, "image/jpeg"), takenAt };
+    }
+    throw new UnsupportedMediaError("This photo couldn't be read. Please choose a JPEG, PNG or HEIC photo.");
+  }
+
+  // If compression didn't help, keep the original pixels - minus the metadata
+  if (compressed.size >= file.size && isJpeg(file)) {
+    return { file: renameTo(await stripJpegMetadata(file, orientation), name, "image/jpeg"), takenAt };
+  }
+
+  return { file: renameTo(compressed, name, "image/jpeg"), takenAt };
+};
+
+// Strip the recording location from a video and read when it was recorded
+export const prepareVideo = async (file: File): Promise<PreparedMedia> => {
+  try {
+    return await scrubVideoMetadata(file);
+  } catch {
+    throw new Error("This video couldn't be read.");
+  }
+};
+
+const RENDITION_WIDTHS = { thumbnail: 320, medium: 1080 } as const;
+
+export type Renditions = Partial<Record<keyof typeof RENDITION_WIDTHS, Blob>>;
+
+// Smaller JPEGs for grids (thumbnail) and feeds (medium), made from a prepared
+// photo or a video's poster frame. A size is skipped when the still is already
+// that small, and GIFs get no medium so they keep animating in the feed.
+export const createRenditions = async (still: Blob): Promise<Renditions> => {
+  const bitmap = await createImageBitmap(still, { imageOrientation: "from-image" });
+
+  try {
+    const renditions: Renditions = {};
+    for (const [name, width] of Object.entries(RENDITION_WIDTHS) as [keyof Renditions, number][]) {
+      if (bitmap.width <= width || (name === "medium" && still.type === "image/gif")) continue;
+      renditions[name] = await drawJpeg(bitmap, width, name === "thumbnail" ? 0.7 : 0.8);
+    }
+    return renditions;
+  } finally {
+    bitmap.close();
+  }
+};
@@ -0,0 +1,96 @@
+// The formats a guest can share. Keep STORED_EXTENSIONS in sync with the
+// "Allow photo uploads" storage policy and the bucket's allowed MIME types,
+// and VIDEO_EXTENSIONS with the photos.media_type column.
+
+export type MediaKind = "image" | "video";
+
+interface MediaFormat {
+  kind: MediaKind;
+  contentType: string;
+  extensions: string[];
+  // Not stored as-is: converted to JPEG on the device first
+  convert?: boolean;
+}
+
+const MEDIA_FORMATS: MediaFormat[] = [
+  { kind: "image", contentType: "image/jpeg", extensions: ["jpg", "jpeg"] },
+  { kind: "image", contentType: "image/png", extensions: ["png"] },
+  { kind: "image", contentType: "image/gif", extensions: ["gif"] },
+  { kind: "image", contentType: "image/webp", extensions: ["webp"] },
+  { kind: "image", contentType: "image/heic", extensions: ["heic"], convert: true },
+  { kind: "image", contentType: "image/heif", extensions: ["heif"], convert: true },
+  { kind: "video", contentType: "video/mp4", extensions: ["mp4"] },
+  { kind: "video", contentType: "video/quicktime", extensions: ["mov"] },
+  { kind: "video", contentType: "video/webm", extensions: ["webm"] },
+  { kind: "video", contentType: "video/x-m4v", extensions: ["m4v"] },
+];
+
+export const MAX_IMAGE_BYTES = 30 * 1024 * 1024;
+export const MAX_VIDEO_BYTES = 500 * 1024 * 1024;
+
+const MAX_BYTES: Record<MediaKind, number> = { image: MAX_IMAGE_BYTES, video: MAX_VIDEO_BYTES };
+
+export const STORED_EXTENSIONS = MEDIA_FORMATS.filter((f) => !f.convert).flatMap((f) => f.extensions);
+
+export const VIDEO_EXTENSIONS = MEDIA_FORMATS.filter((f) => f.kind === "video").flatMap((f) => f.extensions);
+
+// For <input accept>. Extensions are listed too, since some browsers report
+// HEIC and MOV files with an empty or generic MIME type.
+export const ACCEPTED_FILE_TYPES = [
+  ...MEDIA_FORMATS.map((f) => f.contentType),
+  ...MEDIA_FORMATS.flatMap((f) => f.extensions.map((ext) => `.${ext}`)),
+].join(",");
+
+const fileExtension = (name: string) => name.split(".").pop()?.toLowerCase() ?? "";
+
+// Match by MIME type first, then by extension
+const findFormat = (file: { name: string; type: string }) =>
+  MEDIA_FORMATS.find((f) => f.contentType === file.type) ??
+  MEDIA_FORMATS.find((f) => f.extensions.includes(fileExtension(file.name)));
+
+export interface MediaFileInfo {
+  kind: MediaKind;
+  contentType: string;
+  needsConversion: boolean;
+}
+
+export class UnsupportedMediaError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "UnsupportedMediaError";
+  }
+}
+
+const formatMegabytes = (bytes: number) => `${Math.round(bytes / (1024 * 1024))} MB`;
+
+// Check a picked file against the supported formats and size caps.
+// Throws UnsupportedMediaError with a message fit to show the guest.
+export const inspectMediaFile = (file: File): MediaFileInfo => {
+  const format = findFormat(file);
+
+  if (!format) {
+    throw new UnsupportedMediaError(
+      "This file type isn't supported. Please choose a JPEG, PNG, GIF, WebP or HEIC photo, or an MP4, MOV or WebM video."
+    );
+  }
+
+  if (file.size > MAX_BYTES[format.kind]) {
+    throw new UnsupportedMediaError(
+      format.kind === "video"
+        ? `Please choose a clip under ${formatMegabytes(MAX_VIDEO_BYTES)}.`
+        : `Please choose a photo under ${formatMegabytes(MAX_IMAGE_BYTES)}.`
+    );
+  }
+
+  return { kind: format.kind, contentType: format.contentType, needsConversion: !!format.convert };
+};
+
+// Where and how to store a prepared file. Files with an empty MIME type get
+// the one matching their extension, so storage sees a consistent pair.
+export const storedFormat = (file: { name: string; type: string }) => {
+  const format = findFormat(file);
+  if (!format || format.convert) {
+    throw new UnsupportedMediaError("This file type isn't supported.");
+  }
+  return { extension: format.extensions[0], contentType: format.contentType };
+};
@@ -0,0 +1,165 @@
+import exifr from "exifr";
+
+// Capture time and orientation from a photo's EXIF. Never throws: files
+// without (or with broken) EXIF simply have no capture time.
+export const readPhotoMetadata = async (
+  file: Blob
+): Promise<{ takenAt: Date | null; orientation: number }> => {
+  try {
+    const tags = await exifr.parse(file, {
+      pick: ["DateTimeOriginal", "CreateDate", "Orientation"],
+      translateValues: false,
+    });
+    const takenAt = tags?.DateTimeOriginal ?? tags?.CreateDate ?? null;
+
+    return {
+      takenAt: takenAt instanceof Date && !isNaN(takenAt.getTime()) ? takenAt : null,
+      orientation: typeof tags?.Orientation === "number" ? tags.Orientation : 1,
+    };
+  } catch {
+    return { takenAt: null, orientation: 1 };
+  }
+};
+
+// Minimal APP1 segment holding only the Orientation tag, so a losslessly
+// stripped JPEG still displays the right way up
+const orientationSegment = (orientation: number) =>
+  new Uint8Array([
+    0xff, 0xe1, 0x00, 0x22, // APP1, length 34
+    0x45, 0x78, 0x69, 0x66, 0x00, 0x00, // "Exif\0\0"
+    0x4d, 0x4d, 0x00, 0x2a, 0x00, 0x00, 0x00, 0x08, // big-endian TIFF header, IFD0 at 8
+    0x00, 0x01, // one entry
+    0x01, 0x12, 0x00, 0x03, 0x00, 0x00, 0x00, 0x01, // Orientation, SHORT, count 1
+    0x00, orientation, 0x00, 0x00, // value
+    0x00, 0x00, 0x00, 0x00, // no next IFD
+  ]);
+
+// Drop every APPn segment except JFIF (EXIF, XMP, IPTC, ICC maker notes...)
+// and comments from a JPEG without re-encoding it
+export const stripJpegMetadata = async (file: Blob, orientation = 1): Promise<Blob> => {
+  const bytes = new Uint8Array(await file.arrayBuffer());
+  if (bytes[0] !== 0xff || bytes[1] !== 0xd8) {
+    throw new Error("Not a JPEG file.");
+  }
+
+  const kept: BlobPart[] = [bytes.subarray(0, 2)];
+  if (orientation !== 1) kept.push(orientationSegment(orientation));
+
+  let offset = 2;
+  while (offset + 4 <= bytes.length) {
+    if (bytes[offset] !== 0xff) throw new Error("Corrupt JPEG file.");
+    const marker = bytes[offset + 1];
+
+    // Start of scan: the rest is image data
+    if (marker === 0xda) {
+      kept.push(bytes.subarray(offset));
+      break;
+    }
+
+    const length = (bytes[offset + 2] << 8) | bytes[offset + 3];
+    const segment = bytes.subarray(offset, offset + 2 + length);
+    const isApp = marker >= 0xe0 && marker <= 0xef;
+    const isJfif = marker === 0xe0;
+    const isComment = marker === 0xfe;
+
+    if ((!isApp || isJfif) && !isComment) kept.push(segment);
+    offset += 2 + length;
+  }
+
+  return new Blob(kept, { type: "image/jpeg" });
+};
+
+const boxType = (bytes: Uint8Array, offset: number) =>
+  String.fromCharCode(bytes[offset + 4], bytes[offset + 5], bytes[offset + 6], bytes[offset + 7]);
+
+const boxSize = (view: DataView, offset: number, end: number) => {
+  const size = view.getUint32(offset);
+  if (size === 1) return Number(view.getBigUint64(offset + 8));
+  if (size === 0) return end - offset;
+  return size;
+};
+
+const blankBox = (bytes: Uint8Array, offset: number, size: number) => {
+  bytes.set([0x66, 0x72, 0x65, 0x65], offset + 4); // "free"
+  bytes.fill(0, offset + 8, offset + size);
+};
+
+// MP4 epoch is 1904-01-01
+const MP4_EPOCH_OFFSET = 2082844800;
+
+// Walk the boxes of a moov atom in place: blank out location boxes (©xyz, and
+// Apple's com.apple.quicktime.location.* metadata) and read the creation time
+// from mvhd. Sizes never change, so chunk offsets elsewhere stay valid.
+const scrubMoov = (bytes: Uint8Array, start: number, end: number, state: { takenAt: Date | null }) => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const locationKeys = new Set<number>();
+
+  const walk = (from: number, to: number, parent: string) => {
+    let offset = from;
+    while (offset + 8 <= to) {
+      const size = boxSize(view, offset, to);
+      if (size < 8 || offset + size > to) return;
+      const type = boxType(bytes, offset);
+
+      if (type === "©xyz" || (parent === "udta" && type.startsWith("©") && type.endsWith("loc"))) {
+        blankBox(bytes, offset, size);
+      } else if (type === "mvhd") {
+        const version = bytes[offset + 8];
+        const seconds = version === 1 ? Number(view.getBigUint64(offset + 12)) : view.getUint32(offset + 12);
+        if (seconds > MP4_EPOCH_OFFSET) state.takenAt = new Date((seconds - MP4_EPOCH_OFFSET) * 1000);
+      } else if (type === "keys") {
+        // Full box header, entry count, then [size][namespace][key] entries
+        let entry = offset + 16;
+        let index = 1;
+        while (entry + 8 <= offset + size) {
+          const entrySize = view.getUint32(entry);
+          if (entrySize < 8) break;
+          const key = new TextDecoder().decode(bytes.subarray(entry + 8, entry + entrySize));
+          if (key.includes("location")) locationKeys.add(index);
+          entry += entrySize;
+          index += 1;
+        }
+      } else if (parent === "ilst" && locationKeys.has(view.getUint32(offset + 4))) {
+        blankBox(bytes, offset, size);
+      } else if (["moov", "trak", "udta", "meta", "ilst"].includes(type)) {
+        // ISO meta is a full box (4 extra bytes); QuickTime meta is not
+        const isFullMeta = type === "meta" && boxType(bytes, offset + 4) !== "hdlr" && view.getUint32(offset + 8) === 0;
+        walk(offset + (isFullMeta ? 12 : 8), offset + size, type);
+      }
+
+      offset += size;
+    }
+  };
+
+  walk(start, end, "");
+};
+
+// Remove GPS location from an MP4/MOV and read its recording time.
+// Only the moov box is loaded, so this is cheap even for large clips.
+export const scrubVideoMetadata = async (file: File): Promise<{ file: File; takenAt: Date | null }> => {
+  const state: { takenAt: Date | null } = { takenAt: null };
+  let offset = 0;
+
+  while (offset + 16 <= file.size) {
+    const header = new Uint8Array(await file.slice(offset, offset + 16).arrayBuffer());
+    const view = new DataView(header.buffer);
+    const size = boxSize(view, 0, file.size - offset);
+    if (size < 8) break;
+
+    if (boxType(header, 0) === "moov") {
+      const moov = new Uint8Array(await file.slice(offset, offset + size).arrayBuffer());
+      scrubMoov(moov, 0, moov.length, state);
+
+      const scrubbed = new File([file.slice(0, offset), moov, file.slice(offset + size)], file.name, {
+        type: file.type,
+        lastModified: file.lastModified,
+      });
+      return { file: scrubbed, takenAt: state.takenAt };
+    }
+
+    offset += size;
+  }
+
+  // Not an ISO media file (e.g. WebM from a trim) - nothing we know how to scrub
+  return { file, takenAt: null };
+};
@@ -0,0 +1,194 @@
+import { supabase } from "@/integrations/supabase/client";
+import { RESUMABLE_THRESHOLD, uploadResumable } from "@/lib/resumableUpload";
+
+// "camera" for shots taken with the in-app disposable camera
+export type CaptureSource = "camera" | "upload";
+
+// A captured moment waiting to reach the server. It lives in IndexedDB until
+// share_moment succeeds, so it survives flaky venue connections and reloads.
+export interface QueuedMoment {
+  id: string; // Also used as the photo id and storage file name, so retries are idempotent
+  eventId: string;
+  guestId: string;
+  file: Blob;
+  path: string;
+  contentType: string;
+  poster?: Blob; // JPEG frame uploaded alongside videos
+  posterPath?: string;
+  thumbnail?: Blob; // Smaller JPEG renditions for grids and feeds
+  thumbnailPath?: string;
+  medium?: Blob;
+  mediumPath?: string;
+  caption: string | null;
+  takenAt: string | null; // ISO capture time read from the file's metadata
+  captureSource: CaptureSource;
+  queuedAt: number;
+  attempts: number;
+  nextAttemptAt: number;
+  lastError?: string;
+}
+
+const DB_NAME = "ten-moments";
+const DB_VERSION = 1;
+const STORE = "queued-moments";
+
+const openDb = (): Promise<IDBDatabase> =>
+  new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const store = request.result.createObjectStore(STORE, { keyPath: "id" });
+      store.createIndex("guestId", "guestId");
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const withStore = async <T>(
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> => {
+  const db = await openDb();
+  return new Promise<T>((resolve, reject) => {
+    const tx = db.transaction(STORE, mode);
+    const request = run(tx.objectStore(STORE));
+    tx.oncomplete = () => {
+      db.close();
+      resolve(request.result);
+    };
+    tx.onerror = () => {
+      db.close();
+      reject(tx.error);
+    };
+    // Quota errors and version changes abort without an error event
+    tx.onabort = () => {
+      db.close();
+      reject(tx.error ?? new DOMException("Transaction aborted", "AbortError"));
+    };
+  });
+};
+
+export const putQueuedMoment = (moment: QueuedMoment) =>
+  withStore("readwrite", (store) => store.put(moment)).then(() => undefined);
+
+export const deleteQueuedMoment = (id: string) =>
+  withStore("readwrite", (store) => store.delete(id)).then(() => undefined);
+
+export const getQueuedMoments = async (guestId: string): Promise<QueuedMoment[]> => {
+  const moments = await withStore<QueuedMoment[]>("readonly", (store) =>
+    store.index("guestId").getAll(guestId)
+  );
+  return moments.sort((a, b) => a.queuedAt - b.queuedAt);
+};
+
+// Exponential backoff with jitter: 5s, 10s, 20s ... capped at 5 minutes
+export const nextRetryDelay = (attempts: number) => {
+  const base = Math.min(5000 * 2 ** attempts, 5 * 60 * 1000);
+  return base / 2 + Math.random() * (base / 2);
+};
+
+// Database errors worth another try: serialization failures, deadlocks,
+// timeouts and PostgREST losing its database connection. Any other code means
+// the moment was refused (no quota left, not a guest, bad caption, a policy)
+// and retrying won't change that.
+const RETRYABLE_DB_ERRORS = ["40001", "40P01", "53300", "57014", "PGRST000", "PGRST001", "PGRST002", "PGRST003"];
+
+export const isPermanentMomentError = (error: unknown) => {
+  const { code, statusCode, originalResponse } = (error ?? {}) as {
+    code?: string;
+    statusCode?: string;
+    originalResponse?: { getStatus(): number } | null;
+  };
+  // PostgREST errors carry a code; dropped connections leave it empty
+  if (code) return !RETRYABLE_DB_ERRORS.includes(code);
+
+  // Storage API errors carry statusCode, TUS errors the raw response
+  const status = originalResponse ? originalResponse.getStatus() : Number(statusCode);
+  return status >= 400 && status < 500 && status !== 408 && status !== 429;
+};
+
+export const isAbortError = (error: unknown) => (error as Error)?.name === "AbortError";
+
+interface SendMomentOptions {
+  onProgress?: (fraction: number) => void;
+  signal?: AbortSignal;
+}
+
+// Every storage object a moment may have created
+export const momentPaths = (moment: QueuedMoment) =>
+  [moment.path, moment.posterPath, moment.thumbnailPath, moment.mediumPath].filter(
+    (path): path is string => !!path
+  );
+
+// Simple upload that treats "already exists" as success, for retries
+const uploadOnce = async (path: string, file: Blob, contentType: string) => {
+  const { error } = await supabase.storage
+    .from("wedding-photos")
+    .upload(path, file, { contentType, upsert: false });
+
+  const alreadyUploaded = (error as { statusCode?: string } | null)?.statusCode === "409";
+  if (error && !alreadyUploaded) throw error;
+};
+
+// Upload the file and record the moment. Safe to call repeatedly for the same
+// moment: an existing object is reused and share_moment won't charge twice.
+export const sendMoment = async (
+  moment: QueuedMoment,
+  { onProgress, signal }: SendMomentOptions = {}
+): Promise<number | null> => {
+  // The small JPEGs go first, so the moment shows up in feeds straight away
+  const stills: [string | undefined, Blob | undefined][] = [
+    [moment.posterPath, moment.poster],
+    [moment.thumbnailPath, moment.thumbnail],
+    [moment.mediumPath, moment.medium],
+  ];
+  for (const [path, still] of stills) {
+    if (path && still) await uploadOnce(path, still, "image/jpeg");
+  }
+
+  if (moment.file.size > RESUMABLE_THRESHOLD) {
+    // Large files (mostly videos) go up in resumable chunks
+    await uploadResumable({
+      bucket: "wedding-photos",
+      path: moment.path,
+      file: moment.file,
+      contentType: moment.contentType,
+      resumeKey: moment.id,
+      onProgress,
+      signal,
+    });
+  } else {
+    await uploadOnce(moment.path, moment.file, moment.contentType);
+  }
+
+  onProgress?.(1);
+
+  // Cancelled while the file was uploading: don't record the moment. The files
+  // are left to the caller, since an earlier attempt may have committed a row
+  // that still points at them. Past this point the signal is ignored:
+  // share_moment may commit even if we stop waiting for its reply.
+  if (signal?.aborted) {
+    throw new DOMException("Upload cancelled", "AbortError");
+  }
+
+  const { data: remaining, error: shareError } = await supabase.rpc("share_moment", {
+    photo_uuid: moment.id,
+    event_uuid: moment.eventId,
+    image_path: moment.path,
+    caption_text: moment.caption,
+    poster_path: moment.posterPath ?? null,
+    thumbnail_path: moment.thumbnailPath ?? null,
+    medium_path: moment.mediumPath ?? null,
+    taken_at_value: moment.takenAt ?? null,
+    capture_source: moment.captureSource ?? "upload",
+  });
+
+  if (shareError) {
+    if (isPermanentMomentError(shareError)) {
+      // Don't leave an orphaned file behind when the moment is refused for good
+      await supabase.storage.from("wedding-photos").remove(momentPaths(moment));
+    }
+    throw shareError;
+  }
+
+  return remaining;
+};
@@ -0,0 +1,57 @@
+// Allowances a couple can pick when creating an event (null = unlimited)
+export const MOMENT_ALLOWANCE_OPTIONS: { value: number | null; label: string }[] = [
+  { value: 10, label: "10 moments" },
+  { value: 20, label: "20 moments" },
+  { value: 36, label: "36 moments (a roll of film)" },
+  { value: null, label: "Unlimited" },
+];
+
+export const DEFAULT_MOMENT_ALLOWANCE = 20;
+
+// Longest video clip a guest can share, in seconds (null = no limit)
+export const CLIP_LENGTH_OPTIONS: { value: number | null; label: string }[] = [
+  { value: 10, label: "10 seconds" },
+  { value: 30, label: "30 seconds" },
+  { value: 60, label: "1 minute" },
+  { value: null, label: "No limit" },
+];
+
+export const DEFAULT_CLIP_SECONDS = 30;
+
+// "20 moments" / "unlimited moments"
+export const formatMomentAllowance = (allowance: number | null) =>
+  allowance === null ? "unlimited moments" : `${allowance} moment${allowance === 1 ? "" : "s"}`;
+
+// "12 moments remaining" / "Unlimited moments"
+export const formatMomentsRemaining = (remaining: number, allowance: number | null) =>
+  allowance === null ? "Unlimited moments" : `${remaining} moment${remaining === 1 ? "" : "s"} remaining`;
+
+// Whether a guest can still capture, given their event's allowance
+export const hasMomentsLeft = (remaining: number, allowance: number | null) =>
+  allowance === null || remaining > 0;
+
+// Insert a realtime photo into a feed sorted newest-taken first. A photo
+// picked from the gallery after the party belongs further down, not on top.
+export const insertByTakenAt = <T extends { taken_at: string }>(photos: T[], photo: T) => {
+  const takenAt = new Date(photo.taken_at).getTime();
+  const index = photos.findIndex((p) => new Date(p.taken_at).getTime() < takenAt);
+  return index === -1 ? [...photos, photo] : [...photos.slice(0, index), photo, ...photos.slice(index)];
+};
+
+// Whether other guests can see a moment. Keep in sync with photos_status_check
+// and the "Guests can view event photos" policy.
+export const isHiddenFromGuests = (status: string) => status !== "visible" && status !== "restored";
+
+// Why a guest's own moment isn't in everyone else's feed
+export const hiddenMomentLabel = (status: string) => {
+  switch (status) {
+    case "pending":
+      return "Waiting for approval";
+    case "rejected":
+      return "Not approved by the couple";
+    case "flagged":
+      return "Hidden while the couple reviews it";
+    default:
+      return "Hidden by the couple";
+  }
+};
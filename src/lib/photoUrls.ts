@@ -0,0 +1,81 @@
+import { supabase } from "@/integrations/supabase/client";
+import { VIDEO_EXTENSIONS } from "@/lib/mediaFormats";
+
+// The storage paths recorded on a photos row
+export interface StoredMoment {
+  image_url: string;
+  poster_url: string | null;
+  thumbnail_url: string | null;
+  medium_url: string | null;
+}
+
+export const isVideoPath = (path: string) =>
+  VIDEO_EXTENSIONS.includes(path.split(".").pop()?.toLowerCase() ?? "");
+
+// Every object a moment has in storage, for deleting it
+export const storedPaths = (moment: StoredMoment) =>
+  [moment.image_url, moment.poster_url, moment.thumbnail_url, moment.medium_url].filter(
+    (path): path is string => !!path
+  );
+
+// Sign many paths in one request. Legacy full URLs pass through untouched.
+// Paths that fail to sign (gone from storage) are left out; a failed request
+// throws.
+export const signUrls = async (paths: string[], expiresIn = 3600): Promise<Map<string, string>> => {
+  const urls = new Map<string, string>();
+  const toSign = [...new Set(paths)].filter((path) => {
+    if (path.startsWith("http")) {
+      urls.set(path, path);
+      return false;
+    }
+    return true;
+  });
+
+  if (toSign.length === 0) return urls;
+
+  const { data, error } = await supabase.storage.from("wedding-photos").createSignedUrls(toSign, expiresIn);
+
+  if (error) throw error;
+  for (const item of data) {
+    if (item.path && item.signedUrl) urls.set(item.path, item.signedUrl);
+  }
+  return urls;
+};
+
+// For a page of the feed, where a failed request just leaves the page unsigned
+export const getSignedUrls = async (paths: string[], expiresIn = 3600): Promise<Map<string, string>> => {
+  try {
+    return await signUrls(paths, expiresIn);
+  } catch (error) {
+    console.error("Error creating signed URLs:", error);
+    return new Map(paths.filter((path) => path.startsWith("http")).map((path) => [path, path]));
+  }
+};
+
+// Grid tiles: the thumbnail, or for older moments without renditions the
+// poster frame (videos) or the original upload
+const thumbnailPath = (moment: StoredMoment) =>
+  moment.thumbnail_url ?? moment.medium_url ?? moment.poster_url ?? moment.image_url;
+
+export const withThumbnailUrls = async <T extends StoredMoment>(moments: T[]) => {
+  const urls = await getSignedUrls(moments.map(thumbnailPath));
+  return moments.map((moment) => ({ ...moment, signedUrl: urls.get(thumbnailPath(moment)) ?? null }));
+};
+
+// Full-screen feeds: the medium rendition for photos. Videos need the original
+// clip to play, with the medium still as their poster.
+const feedPaths = (moment: StoredMoment) =>
+  isVideoPath(moment.image_url)
+    ? { main: moment.image_url, poster: moment.medium_url ?? moment.poster_url }
+    : { main: moment.medium_url ?? moment.image_url, poster: null };
+
+export const withFeedUrls = async <T extends StoredMoment>(moments: T[]) => {
+  const paths = moments.map(feedPaths);
+  const urls = await getSignedUrls(paths.flatMap(({ main, poster }) => (poster ? [main, poster] : [main])));
+
+  return moments.map((moment, i) => ({
+    ...moment,
+    signedUrl: urls.get(paths[i].main) ?? null,
+    posterUrl: paths[i].poster ? urls.get(paths[i].poster) ?? null : null,
+  }));
+};
@@ -0,0 +1,18 @@
+// Keep in sync with photo_reactions_emoji_check
+export const REACTION_EMOJIS = ["❤️", "😂", "😍", "🥹", "🎉", "👏"] as const;
+
+export type ReactionEmoji = (typeof REACTION_EMOJIS)[number];
+
+export interface ReactionSummary {
+  counts: Partial<Record<ReactionEmoji, number>>;
+  total: number;
+  mine: ReactionEmoji | null; // The current guest's reaction, if any
+}
+
+export const EMPTY_REACTIONS: ReactionSummary = { counts: {}, total: 0, mine: null };
+
+// Most used first, for compact displays like grid tiles
+export const topReactions = (summary: ReactionSummary, limit = 3) =>
+  REACTION_EMOJIS.filter((emoji) => summary.counts[emoji])
+    .sort((a, b) => (summary.counts[b] ?? 0) - (summary.counts[a] ?? 0))
+    .slice(0, limit);
@@ -0,0 +1,32 @@
+// Keep in sync with photo_reports_reason_check
+export const REPORT_REASONS = [
+  { value: "inappropriate", label: "Inappropriate" },
+  { value: "unflattering", label: "Unflattering photo of me" },
+  { value: "privacy", label: "Shouldn't be shared" },
+  { value: "spam", label: "Not from the wedding" },
+  { value: "other", label: "Something else" },
+] as const;
+
+export type ReportReason = (typeof REPORT_REASONS)[number]["value"];
+
+export const reportReasonLabel = (reason: string) =>
+  REPORT_REASONS.find((option) => option.value === reason)?.label ?? reason;
+
+// Reports needed before a moment is hidden automatically
+export const REPORT_THRESHOLD_OPTIONS = [1, 2, 3, 5, 10];
+
+export type ModerationDecision = "restore" | "hide" | "delete";
+
+// What a guest sees about a moment they reported
+export const reportOutcomeLabel = (resolution: string | null) => {
+  switch (resolution) {
+    case "restored":
+      return "Kept by the couple";
+    case "hidden":
+      return "Hidden by the couple";
+    case "deleted":
+      return "Removed by the couple";
+    default:
+      return "Waiting for the couple";
+  }
+};
@@ -0,0 +1,93 @@
+import { Upload, DetailedError } from "tus-js-client";
+import { supabase } from "@/integrations/supabase/client";
+
+// Supabase's TUS endpoint requires exactly 6MB chunks
+const CHUNK_SIZE = 6 * 1024 * 1024;
+
+// Anything bigger than one chunk goes through the resumable endpoint
+export const RESUMABLE_THRESHOLD = CHUNK_SIZE;
+
+interface ResumableUploadOptions {
+  bucket: string;
+  path: string;
+  file: Blob;
+  contentType: string;
+  // Stable key for this file, so an interrupted upload resumes after a reload
+  resumeKey: string;
+  onProgress?: (fraction: number) => void;
+  signal?: AbortSignal;
+}
+
+const abortError = () => new DOMException("Upload cancelled", "AbortError");
+
+// Upload a large file in chunks via TUS. Progress is persisted in localStorage
+// under `resumeKey`, so calling this again for the same key picks up where the
+// last attempt stopped instead of starting over.
+export const uploadResumable = ({
+  bucket,
+  path,
+  file,
+  contentType,
+  resumeKey,
+  onProgress,
+  signal,
+}: ResumableUploadOptions): Promise<void> =>
+  new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(abortError());
+      return;
+    }
+
+    const upload = new Upload(file, {
+      endpoint: `${import.meta.env.VITE_SUPABASE_URL}/storage/v1/upload/resumable`,
+      retryDelays: [0, 3000, 5000, 10000, 20000],
+      headers: {
+        apikey: import.meta.env.VITE_SUPABASE_PUBLISHABLE_KEY,
+        "x-upsert": "false",
+      },
+      // Long uploads can outlive an access token, so sign every request fresh
+      onBeforeRequest: async (req) => {
+        const { data: { session } } = await supabase.auth.getSession();
+        req.setHeader("authorization", `Bearer ${session?.access_token}`);
+      },
+      fingerprint: async () => `moment-upload:${resumeKey}`,
+      storeFingerprintForResuming: true,
+      removeFingerprintOnSuccess: true,
+      uploadDataDuringCreation: true,
+      chunkSize: CHUNK_SIZE,
+      metadata: {
+        bucketName: bucket,
+        objectName: path,
+        contentType,
+        cacheControl: "3600",
+      },
+      onProgress: (bytesSent, bytesTotal) => onProgress?.(bytesSent / bytesTotal),
+      onSuccess: () => {
+        signal?.removeEventListener("abort", handleAbort);
+        resolve();
+      },
+      onError: (error) => {
+        signal?.removeEventListener("abort", handleAbort);
+        // The object already exists: an earlier attempt finished before we lost track of it
+        if ((error as DetailedError).originalResponse?.getStatus() === 409) {
+          resolve();
+          return;
+        }
+        reject(error);
+      },
+    });
+
+    function handleAbort() {
+      // Terminate on the server too, so the partial upload doesn't linger
+      upload.abort(true).catch(() => undefined);
+      reject(abortError());
+    }
+    signal?.addEventListener("abort", handleAbort, { once: true });
+
+    upload.findPreviousUploads().then((previousUploads) => {
+      if (previousUploads.length > 0) {
+        upload.resumeFromPreviousUpload(previousUploads[0]);
+      }
+      upload.start();
+    }, reject);
+  });
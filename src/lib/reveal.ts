@@ -0,0 +1,25 @@
+// Whether an event's photos have been "developed" yet (null = no waiting)
+export const isRevealed = (revealAt: string | null, now = Date.now()) =>
+  revealAt === null || new Date(revealAt).getTime() <= now;
+
+// "3d 4h" / "4h 12m" / "12m 5s" until the reveal
+export const formatTimeUntilReveal = (revealAt: string, now = Date.now()) => {
+  const totalSeconds = Math.max(Math.ceil((new Date(revealAt).getTime() - now) / 1000), 0);
+  const days = Math.floor(totalSeconds / 86400);
+  const hours = Math.floor((totalSeconds % 86400) / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+
+  if (days > 0) return `${days}d ${hours}h`;
+  if (hours > 0) return `${hours}h ${minutes}m`;
+  return `${minutes}m ${seconds}s`;
+};
+
+// <input type="datetime-local"> works in local time without a zone
+export const toDateTimeInputValue = (iso: string) => {
+  const date = new Date(iso);
+  const pad = (n: number) => String(n).padStart(2, "0");
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}T${pad(date.getHours())}:${pad(date.getMinutes())}`;
+};
+
+export const fromDateTimeInputValue = (value: string) => (value ? new Date(value).toISOString() : null);
@@ -0,0 +1,150 @@
+// Client-side video helpers: duration, poster frames and trimming
+
+const loadVideo = (file: Blob): Promise<HTMLVideoElement> =>
+  new Promise((resolve, reject) => {
+    const video = document.createElement("video");
+    video.preload = "auto";
+    video.playsInline = true;
+    video.muted = true;
+    video.onloadedmetadata = () => resolve(video);
+    video.onerror = () => reject(new Error("This video couldn't be read."));
+    video.src = URL.createObjectURL(file);
+  });
+
+const releaseVideo = (video: HTMLVideoElement) => {
+  URL.revokeObjectURL(video.src);
+  video.removeAttribute("src");
+  video.load();
+};
+
+const seekTo = (video: HTMLVideoElement, time: number): Promise<void> =>
+  new Promise((resolve) => {
+    video.onseeked = () => resolve();
+    video.currentTime = time;
+  });
+
+// Keep recordings and posters phone-sized
+const fitWithin = (width: number, height: number, max = 1280) => {
+  const scale = Math.min(1, max / Math.max(width, height));
+  return { width: Math.round(width * scale), height: Math.round(height * scale) };
+};
+
+export const getVideoDuration = async (file: Blob): Promise<number> => {
+  const video = await loadVideo(file);
+  const { duration } = video;
+  releaseVideo(video);
+  return duration;
+};
+
+// Grab a single JPEG frame to show in the feed until playback starts
+export const extractPosterFrame = async (file: Blob, atSeconds = 0): Promise<Blob> => {
+  const video = await loadVideo(file);
+
+  try {
+    // Nudge past 0 - many encoders put a black frame first
+    await seekTo(video, Math.min(Math.max(atSeconds, 0.1), video.duration || 0));
+
+    const canvas = document.createElement("canvas");
+    const { width, height } = fitWithin(video.videoWidth, video.videoHeight);
+    canvas.width = width;
+    canvas.height = height;
+    canvas.getContext("2d")?.drawImage(video, 0, 0, width, height);
+
+    return await new Promise<Blob>((resolve, reject) => {
+      canvas.toBlob(
+        (blob) => (blob ? resolve(blob) : reject(new Error("Couldn't create a poster frame."))),
+        "image/jpeg",
+        0.8
+      );
+    });
+  } finally {
+    releaseVideo(video);
+  }
+};
+
+const RECORDING_TYPES = ["video/mp4", "video/webm;codecs=vp9,opus", "video/webm;codecs=vp8,opus", "video/webm"];
+
+const pickRecordingType = () =>
+  typeof MediaRecorder === "undefined"
+    ? null
+    : RECORDING_TYPES.find((type) => MediaRecorder.isTypeSupported(type)) ?? null;
+
+export const canTrimVideo = () =>
+  pickRecordingType() !== null &&
+  typeof HTMLCanvasElement.prototype.captureStream === "function" &&
+  typeof AudioContext !== "undefined";
+
+// Re-record the [start, end] range of a clip. Plays the clip through a canvas
+// (works on Safari, which lacks video.captureStream) and routes the audio via
+// WebAudio so it is recorded without playing out loud. Runs in real time.
+export const trimVideo = async (
+  file: Blob,
+  start: number,
+  end: number,
+  onProgress?: (fraction: number) => void
+): Promise<File> => {
+  const mimeType = pickRecordingType();
+  if (!mimeType) throw new Error("Your browser can't trim videos.");
+
+  const video = await loadVideo(file);
+  video.muted = false;
+
+  const canvas = document.createElement("canvas");
+  const { width, height } = fitWithin(video.videoWidth, video.videoHeight);
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext("2d");
+
+  const audioContext = new AudioContext();
+  const audioDestination = audioContext.createMediaStreamDestination();
+  audioContext.createMediaElementSource(video).connect(audioDestination);
+
+  const stream = new MediaStream([
+    ...canvas.captureStream(30).getVideoTracks(),
+    ...audioDestination.stream.getAudioTracks(),
+  ]);
+  const recorder = new MediaRecorder(stream, { mimeType });
+  const chunks: Blob[] = [];
+  recorder.ondataavailable = (e) => e.data.size > 0 && chunks.push(e.data);
+
+  try {
+    await seekTo(video, start);
+
+    await new Promise<void>((resolve, reject) => {
+      let frame = 0;
+      const draw = () => {
+        ctx?.drawImage(video, 0, 0, width, height);
+        onProgress?.(Math.min((video.currentTime - start) / (end - start), 1));
+
+        if (video.currentTime >= end || video.ended) {
+          video.pause();
+          recorder.stop();
+          return;
+        }
+        frame = requestAnimationFrame(draw);
+      };
+
+      recorder.onstop = () => {
+        cancelAnimationFrame(frame);
+        resolve();
+      };
+      recorder.onerror = () => reject(new Error("Trimming failed."));
+
+      recorder.start(1000);
+      video.play().then(draw, reject);
+    });
+  } finally {
+    stream.getTracks().forEach((track) => track.stop());
+    await audioContext.close();
+    releaseVideo(video);
+  }
+
+  const type = mimeType.split(";")[0];
+  const extension = type === "video/mp4" ? "mp4" : "webm";
+  return new File(chunks, `trimmed.${extension}`, { type, lastModified: Date.now() });
+};
+
+export const formatClipTime = (seconds: number) => {
+  const whole = Math.max(0, Math.round(seconds));
+  return `${Math.floor(whole / 60)}:${String(whole % 60).padStart(2, "0")}`;
+};
@@ -1,57 +1,69 @@
-import { useState, useEffect, useCallback } from "react";
+import { useState, useEffect, useMemo } from "react";
 import { useNavigate, useParams } from "react-router-dom";
 import { useAuth } from "@/hooks/useAuth";
 import { supabase } from "@/integrations/supabase/client";
 import { Button } from "@/components/ui/button";
-import { ArrowLeft, Leaf, Image as ImageIcon, ChevronUp } from "lucide-react";
+import { ArrowLeft, Leaf, Image as ImageIcon, ChevronUp, Check, X, EyeOff, Loader2 } from "lucide-react";
+import { isVideoPath, withFeedUrls } from "@/lib/photoUrls";
+import { PhotoRow, usePhotoPages } from "@/hooks/usePhotoPages";
+import { useWindowedFeed } from "@/hooks/useWindowedFeed";
+import { useToast } from "@/hooks/use-toast";
+import { useFeedFilters } from "@/hooks/useFeedFilters";
+import { useGuestNames } from "@/hooks/useGuestNames";
+import FeedFilters from "@/components/FeedFilters";
+import EventMark from "@/components/EventMark";
+import { usePhotoReactions } from "@/hooks/usePhotoReactions";
+import PhotoReactions from "@/components/PhotoReactions";
+import { usePhotoComments } from "@/hooks/usePhotoComments";
+import PhotoComments from "@/components/PhotoComments";
+import { hiddenMomentLabel, isHiddenFromGuests } from "@/lib/moments";
+import { type HostRole, canModerate } from "@/lib/hosts";
 
-interface Photo {
-  id: string;
-  image_url: string;
-  caption: string | null;
-  guest_name: string | null;
-  captured_at: string;
+interface PhotoWithSignedUrl extends PhotoRow {
+  signedUrl: string | null;
+  posterUrl: string | null;
 }
 
-interface PhotoWithSignedUrl extends Photo {
-  signedUrl?: string;
-}
+const signFeedPage = (photos: PhotoRow[]): Promise<PhotoWithSignedUrl[]> => withFeedUrls(photos);
+
+const PENDING_ONLY = { status: "pending" };
 
 interface WeddingEvent {
   id: string;
   couple_name: string;
   partner_name: string;
-  couple_user_id: string;
+  cover_image_url: string | null;
+  role: HostRole; // The signed-in host's role on this event
+}
+
+interface CoupleFeedProps {
+  reviewing?: boolean; // Only pending moments, each approved or rejected in turn
 }
 
-const CoupleFeed = () => {
+const CoupleFeed = ({ reviewing = false }: CoupleFeedProps) => {
   const { eventCode } = useParams<{ eventCode: string }>();
   const { user, loading: authLoading } = useAuth();
   const [weddingEvent, setWeddingEvent] = useState<WeddingEvent | null>(null);
-  const [photos, setPhotos] = useState<PhotoWithSignedUrl[]>([]);
-  const [loading, setLoading] = useState(true);
-  const [currentIndex, setCurrentIndex] = useState(0);
+  const [eventLoading, setEventLoading] = useState(true);
+  const [reviewingId, setReviewingId] = useState<string | null>(null);
   const navigate = useNavigate();
-
-  // Generate signed URL for a photo path
-  const getSignedUrl = useCallback(async (path: string): Promise<string | null> => {
-    if (path.startsWith('http')) {
-      return path;
-    }
-    
-    const { data, error } = await supabase.storage
-      .from("wedding-photos")
-      .createSignedUrl(path, 3600);
-    
-    if (error) {
-      console.error("Error creating signed URL:", error);
-      return null;
-    }
-    return data.signedUrl;
-  }, []);
+  const { toast } = useToast();
+  const feedFilters = useFeedFilters();
+  const guestName = useGuestNames(weddingEvent?.id);
+  const { photos, total, loading: photosLoading, hasMore, loadMore, addPhoto, removePhoto, syncPhoto } = usePhotoPages(
+    weddingEvent?.id,
+    signFeedPage,
+    reviewing ? PENDING_ONLY : feedFilters.filters
+  );
+  const { containerRef, currentIndex, start, end, topSpacer, bottomSpacer, handleScroll } = useWindowedFeed(photos);
+  const loading = eventLoading || photosLoading;
+  const photoIds = useMemo(() => photos.map((photo) => photo.id), [photos]);
+  const { getSummary, handleChange: handleReactionChange } = usePhotoReactions(weddingEvent?.id, photoIds);
+  const visibleIds = useMemo(() => photos.slice(start, end).map((photo) => photo.id), [photos, start, end]);
+  const { getThread, deleteComment, handleChange: handleCommentChange } = usePhotoComments(weddingEvent?.id, visibleIds);
 
   useEffect(() => {
-    const fetchEventAndPhotos = async () => {
+    const fetchEventAndPhotos = async (userId: string) => {
       if (!eventCode) {
         navigate("/dashboard");
         return;
@@ -69,42 +81,41 @@ const CoupleFeed = () => {
         return;
       }
 
-      // Verify the logged-in user owns this event
-      if (!authLoading && user && event.couple_user_id !== user.id) {
+      // Verify the logged-in user hosts this event, and may review if asked to
+      const { data: host } = await supabase
+        .from("event_hosts")
+        .select("role")
+        .eq("wedding_event_id", event.id)
+        .eq("user_id", userId)
+        .not("accepted_at", "is", null)
+        .maybeSingle();
+
+      const role = host?.role as HostRole | undefined;
+      if (!role || (reviewing && !canModerate(role))) {
         navigate("/dashboard");
         return;
       }
 
-      setWeddingEvent(event);
-
-      // Fetch photos for this event
-      const { data: photosData, error: photosError } = await supabase
-        .from("photos")
-        .select("*")
-        .eq("wedding_event_id", event.id)
-        .order("captured_at", { ascending: false });
-
-      if (!photosError && photosData) {
-        const photosWithUrls = await Promise.all(
-          photosData.map(async (photo) => ({
-            ...photo,
-            signedUrl: await getSignedUrl(photo.image_url),
-          }))
-        );
-        setPhotos(photosWithUrls);
-      }
-      
-      setLoading(false);
+      // Photos load a page at a time once the event is known
+      setWeddingEvent({ ...event, role });
+      setEventLoading(false);
     };
 
     if (!authLoading) {
       if (!user) {
         navigate("/auth");
       } else {
-        fetchEventAndPhotos();
+        fetchEventAndPhotos(user.id);
       }
     }
-  }, [eventCode, user, authLoading, navigate, getSignedUrl]);
+  }, [eventCode, user, authLoading, reviewing, navigate]);
+
+  // Fetch the next page a couple of moments before the couple runs out
+  useEffect(() => {
+    if (hasMore && currentIndex >= photos.length - 3) {
+      loadMore();
+    }
+  }, [currentIndex, photos.length, hasMore, loadMore]);
 
   // Subscribe to realtime updates
   useEffect(() => {
@@ -120,11 +131,7 @@ const CoupleFeed = () => {
           table: "photos",
           filter: `wedding_event_id=eq.${weddingEvent.id}`,
         },
-        async (payload) => {
-          const newPhoto = payload.new as Photo;
-          const signedUrl = await getSignedUrl(newPhoto.image_url);
-          setPhotos((prev) => [{ ...newPhoto, signedUrl }, ...prev]);
-        }
+        (payload) => addPhoto(payload.new as PhotoRow)
       )
       .on(
         "postgres_changes",
@@ -134,19 +141,89 @@ const CoupleFeed = () => {
           table: "photos",
           filter: `wedding_event_id=eq.${weddingEvent.id}`,
         },
+        (payload) => removePhoto(payload.old.id)
+      )
+      .on(
+        "postgres_changes",
+        {
+          event: "UPDATE",
+          schema: "public",
+          table: "photos",
+          filter: `wedding_event_id=eq.${weddingEvent.id}`,
+        },
         (payload) => {
-          const deletedId = payload.old.id;
-          setPhotos((prev) => prev.filter((p) => p.id !== deletedId));
+          const updatedPhoto = payload.new as PhotoRow;
+          // Reviewed elsewhere, e.g. by the other half of the couple
+          if (reviewing && updatedPhoto.status !== "pending") {
+            removePhoto(updatedPhoto.id);
+          } else {
+            syncPhoto(updatedPhoto, { caption: updatedPhoto.caption, status: updatedPhoto.status });
+          }
         }
       )
+      .on(
+        "postgres_changes",
+        {
+          event: "INSERT",
+          schema: "public",
+          table: "photo_reactions",
+          filter: `wedding_event_id=eq.${weddingEvent.id}`,
+        },
+        handleReactionChange
+      )
+      .on(
+        "postgres_changes",
+        {
+          event: "UPDATE",
+          schema: "public",
+          table: "photo_reactions",
+          filter: `wedding_event_id=eq.${weddingEvent.id}`,
+        },
+        handleReactionChange
+      )
+      .on(
+        // Deletes can't be filtered; unknown ids are ignored
+        "postgres_changes",
+        { event: "DELETE", schema: "public", table: "photo_reactions" },
+        handleReactionChange
+      )
+      .on(
+        "postgres_changes",
+        {
+          event: "INSERT",
+          schema: "public",
+          table: "photo_comments",
+          filter: `wedding_event_id=eq.${weddingEvent.id}`,
+        },
+        handleCommentChange
+      )
+      .on(
+        "postgres_changes",
+        { event: "DELETE", schema: "public", table: "photo_comments" },
+        handleCommentChange
+      )
       .subscribe();
 
     return () => {
       supabase.removeChannel(channel);
     };
-  }, [weddingEvent, getSignedUrl]);
+  }, [weddingEvent, reviewing, addPhoto, removePhoto, syncPhoto, handleReactionChange, handleCommentChange]);
+
+  // Back to this event on the dashboard, not whichever one is newest
+  const handleBack = () => navigate(weddingEvent ? `/dashboard?event=${weddingEvent.id}` : "/dashboard");
+
+  const handleReview = async (photoId: string, approved: boolean) => {
+    setReviewingId(photoId);
+    const { error } = await supabase.rpc("review_moment", { photo_uuid: photoId, approved });
+
+    if (error) {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    } else {
+      removePhoto(photoId);
+    }
+    setReviewingId(null);
+  };
 
-  const isVideo = (url: string) => /\.(mp4|mov|webm|avi|mkv)$/i.test(url);
 
   if (authLoading || loading) {
     return (
@@ -159,16 +236,16 @@ const CoupleFeed = () => {
     );
   }
 
-  if (photos.length === 0) {
+  if (photos.length === 0 && (reviewing || !feedFilters.isFiltered)) {
     return (
       <div className="min-h-screen bg-background flex flex-col">
         <header className="fixed top-0 left-0 right-0 z-20 bg-gradient-to-b from-background via-background/80 to-transparent p-4 pb-8">
           <div className="flex items-center gap-4 max-w-md mx-auto">
-            <Button variant="ghost" size="icon" onClick={() => navigate("/dashboard")}>
+            <Button variant="ghost" size="icon" onClick={handleBack}>
               <ArrowLeft className="w-5 h-5" />
             </Button>
             <div className="flex items-center gap-2">
-              <Leaf className="w-5 h-5 text-primary" />
+              <EventMark coverUrl={weddingEvent?.cover_image_url} className="w-5 h-5" />
               <span className="font-display text-sm">
                 {weddingEvent?.couple_name} & {weddingEvent?.partner_name}
               </span>
@@ -179,15 +256,15 @@ const CoupleFeed = () => {
         <div className="flex-1 flex flex-col items-center justify-center p-6">
           <ImageIcon className="w-16 h-16 text-muted-foreground mb-4" />
           <p className="text-muted-foreground text-center font-display text-xl">
-            No photos yet
+            {reviewing ? "All caught up" : "No photos yet"}
           </p>
           <p className="text-sm text-muted-foreground text-center mt-2">
-            Guests will start sharing moments soon
+            {reviewing ? "New moments wait here for your approval" : "Guests will start sharing moments soon"}
           </p>
           <Button 
             variant="outline" 
             className="mt-6"
-            onClick={() => navigate("/dashboard")}
+            onClick={handleBack}
           >
             Back to Dashboard
           </Button>
@@ -201,32 +278,50 @@ const CoupleFeed = () => {
       {/* Floating Header */}
       <header className="fixed top-0 left-0 right-0 z-20 bg-gradient-to-b from-background via-background/80 to-transparent p-4 pb-8">
         <div className="flex items-center gap-4 max-w-md mx-auto">
-          <Button variant="ghost" size="icon" onClick={() => navigate("/dashboard")}>
+          <Button variant="ghost" size="icon" onClick={handleBack}>
             <ArrowLeft className="w-5 h-5" />
           </Button>
           <div className="flex items-center gap-2">
-            <Leaf className="w-5 h-5 text-primary" />
+            <EventMark coverUrl={weddingEvent?.cover_image_url} className="w-5 h-5" />
             <span className="font-display text-sm">
               {weddingEvent?.couple_name} & {weddingEvent?.partner_name}
             </span>
           </div>
           <div className="ml-auto text-xs text-muted-foreground">
-            {photos.length} moments
+            {total} {reviewing ? "to review" : "moments"}
           </div>
         </div>
+        {weddingEvent && !reviewing && (
+          <FeedFilters eventId={weddingEvent.id} state={feedFilters} className="max-w-md mx-auto mt-3" />
+        )}
       </header>
 
+      {photos.length === 0 && (
+        <div className="flex-1 flex items-center justify-center p-6">
+          <p className="text-muted-foreground text-center font-display text-xl">
+            No moments match this filter
+          </p>
+        </div>
+      )}
+
       {/* Swipe Feed */}
-      <div className="snap-y snap-mandatory h-screen overflow-y-scroll scrollbar-hide pt-16">
-        {photos.map((photo, index) => (
+      <div
+        ref={containerRef}
+        onScroll={handleScroll}
+        className="snap-y snap-mandatory h-screen overflow-y-scroll scrollbar-hide"
+      >
+        <div style={{ height: topSpacer }} />
+        {photos.slice(start, end).map((photo) => (
           <div
             key={photo.id}
             className="snap-start h-screen w-full flex items-center justify-center relative bg-black/5"
           >
             {photo.signedUrl ? (
-              isVideo(photo.image_url) ? (
+              isVideoPath(photo.image_url) ? (
                 <video
                   src={photo.signedUrl}
+                  poster={photo.posterUrl ?? undefined}
+                  preload={photo.posterUrl ? "none" : "metadata"}
                   className="max-h-full max-w-full object-contain"
                   controls
                   loop
@@ -245,17 +340,61 @@ const CoupleFeed = () => {
               </div>
             )}
 
+            {!reviewing && isHiddenFromGuests(photo.status) && (
+              <div className="absolute top-24 left-4 bg-black/50 rounded-full px-2.5 py-1 flex items-center gap-1.5">
+                <EyeOff className="w-3 h-3 text-white" />
+                <span className="text-white text-xs">{hiddenMomentLabel(photo.status)}</span>
+              </div>
+            )}
+
             {/* Caption & Credit Overlay */}
             <div className="absolute bottom-24 left-0 right-0 p-6 bg-gradient-to-t from-black/60 via-black/30 to-transparent">
               {photo.caption && (
                 <p className="text-white text-lg mb-2">{photo.caption}</p>
               )}
-              {photo.guest_name && (
-                <p className="text-white/70 text-sm">by {photo.guest_name}</p>
+              {guestName(photo.guest_id, photo.guest_name) && (
+                <p className="text-white/70 text-sm">by {guestName(photo.guest_id, photo.guest_name)}</p>
+              )}
+              {reviewing ? (
+                <div className="flex gap-3 mt-4">
+                  <Button
+                    variant="outline"
+                    className="flex-1 bg-transparent border-white/60 text-white hover:bg-white/10 hover:text-white"
+                    onClick={() => handleReview(photo.id, false)}
+                    disabled={reviewingId === photo.id}
+                  >
+                    <X className="mr-2 h-4 w-4" />
+                    Reject
+                  </Button>
+                  <Button
+                    className="flex-1 gradient-sage text-primary-foreground"
+                    onClick={() => handleReview(photo.id, true)}
+                    disabled={reviewingId === photo.id}
+                  >
+                    {reviewingId === photo.id ? (
+                      <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                    ) : (
+                      <Check className="mr-2 h-4 w-4" />
+                    )}
+                    Approve
+                  </Button>
+                </div>
+              ) : (
+                <>
+                  <PhotoReactions summary={getSummary(photo.id)} className="mt-3" />
+                  {/* Hosts who moderate can remove any comment on the event */}
+                  <PhotoComments
+                    comments={getThread(photo.id).map((c) => ({ ...c, guest_name: guestName(c.guest_id, c.guest_name) }))}
+                    canDelete={() => !!weddingEvent && canModerate(weddingEvent.role)}
+                    onDelete={deleteComment}
+                    triggerClassName="mt-3 text-white/80 hover:text-white"
+                  />
+                </>
               )}
             </div>
           </div>
         ))}
+        <div style={{ height: bottomSpacer }} />
       </div>
 
       {/* Swipe hint */}
@@ -1,5 +1,5 @@
 import { useState, useEffect } from "react";
-import { useNavigate } from "react-router-dom";
+import { useNavigate, useSearchParams } from "react-router-dom";
 import { useAuth } from "@/hooks/useAuth";
 import { supabase } from "@/integrations/supabase/client";
 import { Button } from "@/components/ui/button";
@@ -7,9 +7,30 @@ import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { useToast } from "@/hooks/use-toast";
-import { Plus, QrCode, Image, Users, Download, LogOut, Calendar, Heart, Leaf, Play, Loader2, Pencil, Check, X, Trash2 } from "lucide-react";
+import { Plus, QrCode, Image, Users, Download, LogOut, Calendar, Heart, Leaf, Play, Loader2, Trash2, ShieldCheck } from "lucide-react";
 import QRCodeDisplay from "@/components/QRCodeDisplay";
 import PhotoGrid from "@/components/PhotoGrid";
+import ModerationQueue from "@/components/ModerationQueue";
+import EventHosts from "@/components/EventHosts";
+import EventSettingsSheet from "@/components/EventSettingsSheet";
+import EventMark from "@/components/EventMark";
+import EventCodeEditor from "@/components/EventCodeEditor";
+import GuestListSheet from "@/components/GuestListSheet";
+import { storedPaths } from "@/lib/photoUrls";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Switch } from "@/components/ui/switch";
+import { Progress } from "@/components/ui/progress";
+import { useEventExport } from "@/hooks/useEventExport";
+import { fromDateTimeInputValue, isRevealed, toDateTimeInputValue } from "@/lib/reveal";
+import { REPORT_THRESHOLD_OPTIONS } from "@/lib/reports";
+import { type HostRole, canDeleteEvent, canManageEvent, canModerate, hostRoleLabel } from "@/lib/hosts";
+import {
+  CLIP_LENGTH_OPTIONS,
+  DEFAULT_CLIP_SECONDS,
+  DEFAULT_MOMENT_ALLOWANCE,
+  MOMENT_ALLOWANCE_OPTIONS,
+  formatMomentAllowance,
+} from "@/lib/moments";
 import {
   AlertDialog,
   AlertDialogAction,
@@ -27,22 +48,40 @@ interface WeddingEvent {
   partner_name: string;
   wedding_date: string;
   event_code: string;
+  event_name: string | null;
   cover_image_url: string | null;
+  moment_allowance: number | null;
+  require_in_app_camera: boolean;
+  require_approval: boolean;
+  reveal_at: string | null;
+  report_threshold: number;
+  role: HostRole; // The signed-in user's role on this event
 }
 
 interface GuestStats {
   total_guests: number;
   total_photos: number;
+  pending_photos: number;
 }
 
+// wedding_date is a plain date; parse it as local so it doesn't shift a day
+const formatWeddingDate = (date: string) => {
+  const [year, month, day] = date.split("-").map(Number);
+  return new Date(year, month - 1, day).toLocaleDateString("en-US", {
+    month: "long",
+    day: "numeric",
+    year: "numeric",
+  });
+};
+
 const Dashboard = () => {
   const { user, loading: authLoading, signOut } = useAuth();
-  const [weddingEvent, setWeddingEvent] = useState<WeddingEvent | null>(null);
-  const [guestStats, setGuestStats] = useState<GuestStats>({ total_guests: 0, total_photos: 0 });
+  const [events, setEvents] = useState<WeddingEvent[]>([]);
+  const [searchParams, setSearchParams] = useSearchParams();
+  const [guestStats, setGuestStats] = useState<GuestStats>({ total_guests: 0, total_photos: 0, pending_photos: 0 });
   const [showCreateForm, setShowCreateForm] = useState(false);
   const [showQRCode, setShowQRCode] = useState(false);
   const [loading, setLoading] = useState(true);
-  const [downloading, setDownloading] = useState(false);
   const [showDeleteEvent, setShowDeleteEvent] = useState(false);
   const [showDeleteAccount, setShowDeleteAccount] = useState(false);
   const [deletingEvent, setDeletingEvent] = useState(false);
@@ -50,14 +89,41 @@ const Dashboard = () => {
   const navigate = useNavigate();
   const { toast } = useToast();
 
+  // The selected event lives in the URL, so a reload stays on it. Newest first.
+  const weddingEvent = events.find((e) => e.id === searchParams.get("event")) ?? events[0] ?? null;
+
+  // Everything on the dashboard is per event; start fresh on the one chosen
+  const selectEvent = (event: WeddingEvent) => {
+    setSearchParams({ event: event.id }, { replace: true });
+    setNewRevealAt(event.reveal_at ? toDateTimeInputValue(event.reveal_at) : "");
+    fetchGuestStats(event.id);
+  };
+
+  const updateWeddingEvent = (changes: Partial<WeddingEvent>) => {
+    if (!weddingEvent) return;
+    setEvents((prev) => prev.map((e) => (e.id === weddingEvent.id ? { ...e, ...changes } : e)));
+  };
+
+  const { progress: exportProgress, exporting, savedProgress, exportArchive, discardExport } = useEventExport(
+    weddingEvent?.id,
+    weddingEvent
+      ? (weddingEvent.event_name || `${weddingEvent.couple_name}-${weddingEvent.partner_name}-wedding`).replace(/[^a-zA-Z0-9-]/g, "_")
+      : "wedding"
+  );
+
   // Form state
+  const [eventName, setEventName] = useState("");
   const [coupleName, setCoupleName] = useState("");
   const [partnerName, setPartnerName] = useState("");
   const [weddingDate, setWeddingDate] = useState("");
+  const [momentAllowance, setMomentAllowance] = useState(String(DEFAULT_MOMENT_ALLOWANCE));
+  const [maxClipSeconds, setMaxClipSeconds] = useState(String(DEFAULT_CLIP_SECONDS));
+  const [requireInAppCamera, setRequireInAppCamera] = useState(false);
+  const [requireApproval, setRequireApproval] = useState(false);
+  const [revealAt, setRevealAt] = useState("");
 
-  // Edit date state
-  const [editingDate, setEditingDate] = useState(false);
-  const [newDate, setNewDate] = useState("");
+  // Edit reveal state
+  const [newRevealAt, setNewRevealAt] = useState("");
 
   useEffect(() => {
     if (!authLoading && !user) {
@@ -67,60 +133,71 @@ const Dashboard = () => {
 
   useEffect(() => {
     if (user) {
-      fetchWeddingEvent();
+      fetchWeddingEvents();
     }
   }, [user]);
 
-  const fetchWeddingEvent = async () => {
+  const fetchWeddingEvents = async () => {
     if (!user) return;
     
+    // Signing in with an invited email is what accepts the invite
+    const { error: acceptError } = await supabase.rpc("accept_event_invites");
+    if (acceptError) console.error("Error accepting host invites:", acceptError);
+
     const { data, error } = await supabase
-      .from("wedding_events")
-      .select("*")
-      .eq("couple_user_id", user.id)
-      .maybeSingle();
+      .from("event_hosts")
+      .select("role, wedding_events(*)")
+      .eq("user_id", user.id);
 
     if (error) {
-      console.error("Error fetching wedding event:", error);
-    } else if (data) {
-      setWeddingEvent(data);
-      fetchGuestStats(data.id);
+      console.error("Error fetching wedding events:", error);
+    } else {
+      const hosted = data
+        .flatMap(({ role, wedding_events }) => (wedding_events ? [{ ...wedding_events, role: role as HostRole }] : []))
+        .sort((a, b) => b.created_at.localeCompare(a.created_at));
+      setEvents(hosted);
+      const selected = hosted.find((e) => e.id === searchParams.get("event")) ?? hosted[0];
+      if (selected) selectEvent(selected);
     }
     setLoading(false);
   };
 
   const fetchGuestStats = async (eventId: string) => {
-    const [guestsResult, photosResult] = await Promise.all([
+    const [guestsResult, photosResult, pendingResult] = await Promise.all([
       supabase.from("guests").select("id", { count: "exact" }).eq("wedding_event_id", eventId),
       supabase.from("photos").select("id", { count: "exact" }).eq("wedding_event_id", eventId),
+      supabase
+        .from("photos")
+        .select("id", { count: "exact", head: true })
+        .eq("wedding_event_id", eventId)
+        .eq("status", "pending"),
     ]);
 
     setGuestStats({
       total_guests: guestsResult.count || 0,
       total_photos: photosResult.count || 0,
+      pending_photos: pendingResult.count || 0,
     });
   };
 
-  const generateEventCode = () => {
-    const names = `${coupleName.substring(0, 3)}${partnerName.substring(0, 3)}`.toUpperCase();
-    const random = Math.random().toString(36).substring(2, 6).toUpperCase();
-    return `${names}-${random}`;
-  };
-
   const handleCreateEvent = async (e: React.FormEvent) => {
     e.preventDefault();
     if (!user) return;
 
-    const eventCode = generateEventCode();
-
+    // The event code is generated by the database
     const { data, error } = await supabase
       .from("wedding_events")
       .insert({
         couple_user_id: user.id,
+        event_name: eventName.trim() || null,
         couple_name: coupleName,
         partner_name: partnerName,
         wedding_date: weddingDate,
-        event_code: eventCode,
+        moment_allowance: momentAllowance === "unlimited" ? null : Number(momentAllowance),
+        max_clip_seconds: maxClipSeconds === "unlimited" ? null : Number(maxClipSeconds),
+        require_in_app_camera: requireInAppCamera,
+        require_approval: requireApproval,
+        reveal_at: fromDateTimeInputValue(revealAt),
       })
       .select()
       .single();
@@ -132,15 +209,31 @@ const Dashboard = () => {
         variant: "destructive",
       });
     } else {
-      setWeddingEvent(data);
+      const created: WeddingEvent = { ...data, role: "owner" };
+      setEvents((prev) => [created, ...prev]);
+      selectEvent(created);
       setShowCreateForm(false);
       toast({
-        title: "Wedding created!",
+        title: events.length > 0 ? "Event created!" : "Wedding created!",
         description: "Your wedding photo experience is ready.",
       });
     }
   };
 
+  // Another event for the same couple: keep the names, start the rest afresh
+  const handleNewEvent = () => {
+    setEventName("");
+    setCoupleName(weddingEvent?.couple_name ?? "");
+    setPartnerName(weddingEvent?.partner_name ?? "");
+    setWeddingDate("");
+    setMomentAllowance(String(DEFAULT_MOMENT_ALLOWANCE));
+    setMaxClipSeconds(String(DEFAULT_CLIP_SECONDS));
+    setRequireInAppCamera(false);
+    setRequireApproval(false);
+    setRevealAt("");
+    setShowCreateForm(true);
+  };
+
   const handleSignOut = async () => {
     await signOut();
     navigate("/");
@@ -150,62 +243,119 @@ const Dashboard = () => {
     navigate(`/feed/${weddingEvent?.event_code}`);
   };
 
-  const handleEditDate = () => {
-    if (weddingEvent) {
-      setNewDate(weddingEvent.wedding_date);
-      setEditingDate(true);
+  const handleToggleInAppCamera = async (required: boolean) => {
+    if (!weddingEvent) return;
+    const { error } = await supabase
+      .from("wedding_events")
+      .update({ require_in_app_camera: required })
+      .eq("id", weddingEvent.id);
+
+    if (error) {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    } else {
+      updateWeddingEvent({ require_in_app_camera: required });
+      toast({ title: required ? "Camera first" : "Gallery uploads allowed" });
     }
   };
 
-  const handleSaveDate = async () => {
-    if (!weddingEvent || !newDate) return;
+  const handleToggleApproval = async (required: boolean) => {
+    if (!weddingEvent) return;
     const { error } = await supabase
       .from("wedding_events")
-      .update({ wedding_date: newDate })
+      .update({ require_approval: required })
       .eq("id", weddingEvent.id);
 
     if (error) {
       toast({ title: "Error", description: error.message, variant: "destructive" });
     } else {
-      setWeddingEvent({ ...weddingEvent, wedding_date: newDate });
-      toast({ title: "Date updated!" });
+      updateWeddingEvent({ require_approval: required });
+      toast({
+        title: required ? "New moments wait for your approval" : "New moments are shared straight away",
+      });
     }
-    setEditingDate(false);
   };
 
-  const handleDeleteEvent = async () => {
+  const handleSaveRevealAt = async (value: string) => {
     if (!weddingEvent) return;
-    setDeletingEvent(true);
+    const revealAtValue = fromDateTimeInputValue(value);
+    const { error } = await supabase
+      .from("wedding_events")
+      .update({ reveal_at: revealAtValue })
+      .eq("id", weddingEvent.id);
 
-    try {
-      // Delete all photos from storage
-      const { data: photos } = await supabase
-        .from("photos")
-        .select("image_url")
-        .eq("wedding_event_id", weddingEvent.id);
+    if (error) {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    } else {
+      updateWeddingEvent({ reveal_at: revealAtValue });
+      setNewRevealAt(value);
+      toast({ title: revealAtValue ? "Reveal time set" : "Photos are shown straight away" });
+    }
+  };
 
-      if (photos && photos.length > 0) {
-        await supabase.storage
-          .from("wedding-photos")
-          .remove(photos.map((p) => p.image_url));
-      }
+  const handleSaveReportThreshold = async (value: string) => {
+    if (!weddingEvent) return;
+    const threshold = Number(value);
+    const { error } = await supabase
+      .from("wedding_events")
+      .update({ report_threshold: threshold })
+      .eq("id", weddingEvent.id);
 
-      // Delete photos records
-      await supabase.from("photos").delete().eq("wedding_event_id", weddingEvent.id);
+    if (error) {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    } else {
+      updateWeddingEvent({ report_threshold: threshold });
+      toast({ title: "Report limit updated" });
+    }
+  };
 
-      // Delete guests
-      await supabase.from("guests").delete().eq("wedding_event_id", weddingEvent.id);
+  // Remove an event with its guests, photos and files
+  const deleteEventData = async (eventId: string) => {
+    // Delete all photos from storage
+    const { data: photos } = await supabase
+      .from("photos")
+      .select("image_url, poster_url, thumbnail_url, medium_url")
+      .eq("wedding_event_id", eventId);
 
-      // Delete event
-      const { error } = await supabase
-        .from("wedding_events")
-        .delete()
-        .eq("id", weddingEvent.id);
+    if (photos && photos.length > 0) {
+      await supabase.storage
+        .from("wedding-photos")
+        .remove(photos.flatMap(storedPaths));
+    }
+
+    // Delete photos records
+    await supabase.from("photos").delete().eq("wedding_event_id", eventId);
+
+    // Delete guests
+    await supabase.from("guests").delete().eq("wedding_event_id", eventId);
+
+    // Delete event
+    const { error } = await supabase
+      .from("wedding_events")
+      .delete()
+      .eq("id", eventId);
+
+    if (error) throw error;
+  };
+
+  // Drop an event from the switcher once it's gone or we've left it
+  const forgetEvent = (eventId: string) => {
+    const remaining = events.filter((e) => e.id !== eventId);
+    setEvents(remaining);
+    if (remaining.length > 0) {
+      selectEvent(remaining[0]);
+    } else {
+      setSearchParams({}, { replace: true });
+      setGuestStats({ total_guests: 0, total_photos: 0, pending_photos: 0 });
+    }
+  };
 
-      if (error) throw error;
+  const handleDeleteEvent = async () => {
+    if (!weddingEvent) return;
+    setDeletingEvent(true);
 
-      setWeddingEvent(null);
-      setGuestStats({ total_guests: 0, total_photos: 0 });
+    try {
+      await deleteEventData(weddingEvent.id);
+      forgetEvent(weddingEvent.id);
       toast({ title: "Event deleted", description: "Your wedding event has been removed." });
     } catch (error: any) {
       toast({ title: "Error", description: error.message, variant: "destructive" });
@@ -215,15 +365,22 @@ const Dashboard = () => {
     }
   };
 
+  const handleLeftEvent = () => {
+    if (!weddingEvent) return;
+    forgetEvent(weddingEvent.id);
+    toast({ title: "You've left the event" });
+  };
+
   const handleDeleteAccount = async () => {
     if (!user) return;
     setDeletingAccount(true);
 
     try {
-      // Delete event data first if exists
-      if (weddingEvent) {
-        await handleDeleteEvent();
+      // Delete every event's data first; events hosted for others stay with them
+      for (const event of events) {
+        if (canDeleteEvent(event.role)) await deleteEventData(event.id);
       }
+      setEvents([]);
 
       // Sign out (account deletion requires admin API, so we sign out and inform user)
       await signOut();
@@ -240,74 +397,22 @@ const Dashboard = () => {
     }
   };
 
-  const handleDownloadAll = async () => {
-    if (!weddingEvent) return;
-    
-    setDownloading(true);
+  const handleExport = async (resume: boolean) => {
     try {
-      const { data: photos, error } = await supabase
-        .from("photos")
-        .select("image_url, guest_name, captured_at")
-        .eq("wedding_event_id", weddingEvent.id);
-
-      if (error) throw error;
-      if (!photos || photos.length === 0) {
+      const result = await exportArchive(resume);
+      if (result) {
         toast({
-          title: "No photos",
-          description: "There are no photos to download yet.",
+          title: "Download complete",
+          description: `Saved ${result.moments} moments${result.volumes > 1 ? ` in ${result.volumes} ZIP files` : ""}.`,
         });
-        setDownloading(false);
-        return;
       }
-
-      for (let i = 0; i < photos.length; i++) {
-        const photo = photos[i];
-        const path = photo.image_url;
-        
-        const { data: signedData, error: signedError } = await supabase.storage
-          .from("wedding-photos")
-          .createSignedUrl(path, 60);
-
-        if (signedError || !signedData) {
-          console.error("Error getting signed URL:", signedError);
-          continue;
-        }
-
-        const response = await fetch(signedData.signedUrl);
-        const blob = await response.blob();
-        
-        const extension = path.split('.').pop() || 'jpg';
-        const guestName = photo.guest_name?.replace(/[^a-zA-Z0-9]/g, '_') || 'guest';
-        const timestamp = new Date(photo.captured_at).getTime();
-        const filename = `${guestName}_${timestamp}.${extension}`;
-        
-        const url = window.URL.createObjectURL(blob);
-        const a = document.createElement('a');
-        a.href = url;
-        a.download = filename;
-        document.body.appendChild(a);
-        a.click();
-        document.body.removeChild(a);
-        window.URL.revokeObjectURL(url);
-        
-        if (i < photos.length - 1) {
-          await new Promise(resolve => setTimeout(resolve, 300));
-        }
-      }
-
-      toast({
-        title: "Download complete",
-        description: `Downloaded ${photos.length} photos.`,
-      });
     } catch (error) {
       console.error("Download error:", error);
       toast({
-        title: "Download failed",
-        description: "There was an error downloading photos.",
+        title: "Download interrupted",
+        description: "Finished parts are kept. Resume to carry on from where it stopped.",
         variant: "destructive",
       });
-    } finally {
-      setDownloading(false);
     }
   };
 
@@ -396,11 +501,27 @@ const Dashboard = () => {
         <div className="max-w-md mx-auto pt-8 animate-slide-up">
           <Card className="glass-card">
             <CardHeader>
-              <CardTitle className="font-display text-2xl">Wedding Details</CardTitle>
-              <CardDescription>Tell us about your special day</CardDescription>
+              <CardTitle className="font-display text-2xl">
+                {events.length > 0 ? "Another Event" : "Wedding Details"}
+              </CardTitle>
+              <CardDescription>
+                {events.length > 0
+                  ? "Its own code, QR and feed, separate from your other events"
+                  : "Tell us about your special day"}
+              </CardDescription>
             </CardHeader>
             <CardContent>
               <form onSubmit={handleCreateEvent} className="space-y-4">
+                <div className="space-y-2">
+                  <Label htmlFor="eventName">Event Name (optional)</Label>
+                  <Input
+                    id="eventName"
+                    placeholder="Welcome party"
+                    value={eventName}
+                    onChange={(e) => setEventName(e.target.value)}
+                    className="bg-background"
+                  />
+                </div>
                 <div className="space-y-2">
                   <Label htmlFor="coupleName">Your Name</Label>
                   <Input
@@ -434,6 +555,81 @@ const Dashboard = () => {
                     className="bg-background"
                   />
                 </div>
+                <div className="space-y-2">
+                  <Label htmlFor="momentAllowance">Moments per Guest</Label>
+                  <Select value={momentAllowance} onValueChange={setMomentAllowance}>
+                    <SelectTrigger id="momentAllowance" className="bg-background">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {MOMENT_ALLOWANCE_OPTIONS.map((option) => (
+                        <SelectItem key={option.label} value={option.value === null ? "unlimited" : String(option.value)}>
+                          {option.label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <p className="text-xs text-muted-foreground">
+                    Fewer moments make every shot count
+                  </p>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="maxClipSeconds">Longest Video Clip</Label>
+                  <Select value={maxClipSeconds} onValueChange={setMaxClipSeconds}>
+                    <SelectTrigger id="maxClipSeconds" className="bg-background">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {CLIP_LENGTH_OPTIONS.map((option) => (
+                        <SelectItem key={option.label} value={option.value === null ? "unlimited" : String(option.value)}>
+                          {option.label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <p className="text-xs text-muted-foreground">
+                    Guests can trim longer clips before sharing
+                  </p>
+                </div>
+                <div className="flex items-center justify-between gap-4">
+                  <div className="space-y-1">
+                    <Label htmlFor="requireInAppCamera">Camera First</Label>
+                    <p className="text-xs text-muted-foreground">
+                      Guests are shown the in-app disposable camera instead of their gallery
+                    </p>
+                  </div>
+                  <Switch
+                    id="requireInAppCamera"
+                    checked={requireInAppCamera}
+                    onCheckedChange={setRequireInAppCamera}
+                  />
+                </div>
+                <div className="flex items-center justify-between gap-4">
+                  <div className="space-y-1">
+                    <Label htmlFor="requireApproval">Approve Every Moment</Label>
+                    <p className="text-xs text-muted-foreground">
+                      Guests' moments only reach the others once you've approved them
+                    </p>
+                  </div>
+                  <Switch
+                    id="requireApproval"
+                    checked={requireApproval}
+                    onCheckedChange={setRequireApproval}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="revealAt">Develop the Film (optional)</Label>
+                  <Input
+                    id="revealAt"
+                    type="datetime-local"
+                    value={revealAt}
+                    onChange={(e) => setRevealAt(e.target.value)}
+                    className="bg-background"
+                  />
+                  <p className="text-xs text-muted-foreground">
+                    Guests only see their own moments until then, like waiting for the prints
+                  </p>
+                </div>
                 <div className="flex gap-2 pt-4">
                   <Button
                     type="button"
@@ -472,59 +668,80 @@ const Dashboard = () => {
       <header className="border-b border-border bg-card/50 backdrop-blur-sm sticky top-0 z-10">
         <div className="max-w-4xl mx-auto px-4 py-4 flex items-center justify-between">
           <div className="flex items-center gap-3">
-            <Leaf className="w-8 h-8 text-primary" />
+            <EventMark coverUrl={weddingEvent.cover_image_url} className="w-8 h-8" />
             <div>
               <h1 className="font-display text-xl">
                 {weddingEvent.couple_name} & {weddingEvent.partner_name}
               </h1>
-              {editingDate ? (
-                <div className="flex items-center gap-2 mt-1">
-                  <Input
-                    type="date"
-                    value={newDate}
-                    onChange={(e) => setNewDate(e.target.value)}
-                    className="h-8 text-sm w-40 bg-background"
-                    autoFocus
-                  />
-                  <Button variant="ghost" size="icon" className="h-7 w-7 text-primary" onClick={handleSaveDate}>
-                    <Check className="w-4 h-4" />
-                  </Button>
-                  <Button variant="ghost" size="icon" className="h-7 w-7 text-muted-foreground" onClick={() => setEditingDate(false)}>
-                    <X className="w-4 h-4" />
-                  </Button>
-                </div>
-              ) : (
-                <button className="text-sm text-muted-foreground flex items-center gap-1.5 hover:text-foreground transition-colors" onClick={handleEditDate}>
-                  <Calendar className="w-3 h-3" />
-                  {(() => {
-                    const [year, month, day] = weddingEvent.wedding_date.split('-').map(Number);
-                    return new Date(year, month - 1, day).toLocaleDateString("en-US", {
-                      month: "long",
-                      day: "numeric",
-                      year: "numeric",
-                    });
-                  })()}
-                  <Pencil className="w-3 h-3 text-primary" />
-                </button>
+              {weddingEvent.event_name && (
+                <p className="text-sm text-foreground">{weddingEvent.event_name}</p>
               )}
+              <p className="text-sm text-muted-foreground flex items-center gap-1.5">
+                <Calendar className="w-3 h-3" />
+                {formatWeddingDate(weddingEvent.wedding_date)}
+                {!canManageEvent(weddingEvent.role) && ` · ${hostRoleLabel(weddingEvent.role)}`}
+              </p>
             </div>
           </div>
-          <Button variant="ghost" size="icon" onClick={handleSignOut}>
-            <LogOut className="w-5 h-5" />
-          </Button>
+          <div className="flex items-center gap-1">
+            {canManageEvent(weddingEvent.role) && (
+              <EventSettingsSheet key={weddingEvent.id} eventId={weddingEvent.id} settings={weddingEvent} onSaved={updateWeddingEvent} />
+            )}
+            <Button variant="ghost" size="icon" onClick={handleSignOut}>
+              <LogOut className="w-5 h-5" />
+            </Button>
+          </div>
         </div>
       </header>
 
       <main className="max-w-4xl mx-auto px-4 py-6 space-y-6">
+        {/* Event Switcher */}
+        <div className="flex gap-2 animate-fade-in">
+          {events.length > 1 && (
+            <Select
+              value={weddingEvent.id}
+              onValueChange={(id) => {
+                const event = events.find((e) => e.id === id);
+                if (event) selectEvent(event);
+              }}
+            >
+              <SelectTrigger className="flex-1 bg-background" aria-label="Choose an event">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {events.map((event) => (
+                  <SelectItem key={event.id} value={event.id}>
+                    {event.event_name || `${event.couple_name} & ${event.partner_name}`} · {formatWeddingDate(event.wedding_date)}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
+          <Button variant="outline" onClick={handleNewEvent} className={events.length > 1 ? "" : "ml-auto"}>
+            <Plus className="mr-2 h-4 w-4" />
+            New Event
+          </Button>
+        </div>
+
         {/* Stats Cards */}
         <div className="grid grid-cols-2 gap-4 animate-fade-in">
-          <Card className="glass-card">
-            <CardContent className="pt-6 text-center">
-              <Users className="w-8 h-8 text-primary mx-auto mb-2" />
-              <p className="text-3xl font-display">{guestStats.total_guests}</p>
-              <p className="text-sm text-muted-foreground">Guests</p>
-            </CardContent>
-          </Card>
+          <GuestListSheet
+            eventId={weddingEvent.id}
+            momentAllowance={weddingEvent.moment_allowance}
+            canManage={canManageEvent(weddingEvent.role)}
+            onRemoved={() => fetchGuestStats(weddingEvent.id)}
+          >
+            <Card className="glass-card cursor-pointer hover:bg-muted/40 transition-colors" role="button" tabIndex={0}>
+              <CardContent className="pt-6 text-center">
+                <Users className="w-8 h-8 text-primary mx-auto mb-2" />
+                <p className="text-3xl font-display">{guestStats.total_guests}</p>
+                <p className="text-sm text-muted-foreground">Guests</p>
+                <p className="text-xs text-muted-foreground mt-1">
+                  {formatMomentAllowance(weddingEvent.moment_allowance)} each
+                </p>
+              </CardContent>
+            </Card>
+          </GuestListSheet>
           <Card className="glass-card">
             <CardContent className="pt-6 text-center">
               <Image className="w-8 h-8 text-secondary mx-auto mb-2" />
@@ -554,21 +771,55 @@ const Dashboard = () => {
           <Button
             variant="outline"
             className="h-16 border-secondary text-secondary hover:bg-secondary/10 flex-col gap-1"
-            onClick={handleDownloadAll}
-            disabled={downloading || guestStats.total_photos === 0}
+            onClick={() => handleExport(false)}
+            disabled={exporting || guestStats.total_photos === 0}
           >
-            {downloading ? (
+            {exporting ? (
               <Loader2 className="h-5 w-5 animate-spin" />
             ) : (
               <Download className="h-5 w-5" />
             )}
-            <span className="text-xs">{downloading ? "Downloading..." : "Download"}</span>
+            <span className="text-xs">{exporting ? "Downloading..." : "Download"}</span>
           </Button>
         </div>
 
+        {/* Download Progress */}
+        {exportProgress && (
+          <div className="space-y-2 animate-fade-in">
+            <Progress
+              value={exportProgress.total ? Math.round((exportProgress.done / exportProgress.total) * 100) : 0}
+              className="h-1.5"
+            />
+            <p className="text-xs text-muted-foreground text-center">
+              {exportProgress.total
+                ? `Zipped ${exportProgress.done} of ${exportProgress.total} moments`
+                : "Gathering moments..."}
+            </p>
+          </div>
+        )}
+
+        {/* An export that stopped part way */}
+        {!exporting && savedProgress && (
+          <Card className="glass-card animate-fade-in">
+            <CardContent className="pt-6 flex items-center justify-between gap-4">
+              <p className="text-sm text-muted-foreground">
+                A download stopped after {savedProgress.completedMoments} of {savedProgress.momentIds.length} moments
+              </p>
+              <div className="flex gap-2 shrink-0">
+                <Button variant="ghost" onClick={discardExport}>
+                  Discard
+                </Button>
+                <Button variant="outline" onClick={() => handleExport(true)}>
+                  Resume
+                </Button>
+              </div>
+            </CardContent>
+          </Card>
+        )}
+
         {/* Event Code */}
         <Card className="glass-card animate-slide-up" style={{ animationDelay: "0.2s" }}>
-          <CardContent className="pt-6">
+          <CardContent className="pt-6 space-y-3">
             <div className="flex items-center justify-between">
               <div>
                 <p className="text-sm text-muted-foreground mb-1">Event Code</p>
@@ -589,6 +840,161 @@ const Dashboard = () => {
                 Copy
               </Button>
             </div>
+            {canManageEvent(weddingEvent.role) && (
+              <EventCodeEditor
+                key={weddingEvent.id}
+                eventId={weddingEvent.id}
+                eventCode={weddingEvent.event_code}
+                onChanged={(eventCode) => updateWeddingEvent({ event_code: eventCode })}
+              />
+            )}
+          </CardContent>
+        </Card>
+
+        {/* Capture Mode */}
+        {canManageEvent(weddingEvent.role) && (
+          <Card className="glass-card animate-slide-up" style={{ animationDelay: "0.25s" }}>
+            <CardContent className="pt-6 flex items-center justify-between gap-4">
+              <div>
+                <Label htmlFor="eventRequireInAppCamera">Camera First</Label>
+                <p className="text-sm text-muted-foreground">
+                  Show guests the in-app disposable camera instead of their gallery. This sets the mood; it
+                  can't check where a photo came from
+                </p>
+              </div>
+              <Switch
+                id="eventRequireInAppCamera"
+                checked={weddingEvent.require_in_app_camera}
+                onCheckedChange={handleToggleInAppCamera}
+              />
+            </CardContent>
+          </Card>
+        )}
+
+        {/* Pre-approval */}
+        {canModerate(weddingEvent.role) && (
+          <Card className="glass-card animate-slide-up" style={{ animationDelay: "0.26s" }}>
+            <CardContent className="pt-6 space-y-3">
+              <div className="flex items-center justify-between gap-4">
+                <div>
+                  <Label htmlFor="eventRequireApproval">Approve Every Moment</Label>
+                  <p className="text-sm text-muted-foreground">
+                    New moments stay with the guest who shared them until you approve them
+                  </p>
+                </div>
+                <Switch
+                  id="eventRequireApproval"
+                  checked={weddingEvent.require_approval}
+                  onCheckedChange={handleToggleApproval}
+                  disabled={!canManageEvent(weddingEvent.role)}
+                />
+              </div>
+              {guestStats.pending_photos > 0 && (
+                <Button
+                  variant="outline"
+                  className="w-full border-primary text-primary hover:bg-primary/10"
+                  onClick={() => navigate(`/feed/${weddingEvent.event_code}/review`)}
+                >
+                  <ShieldCheck className="mr-2 h-4 w-4" />
+                  Review {guestStats.pending_photos} waiting moment{guestStats.pending_photos === 1 ? "" : "s"}
+                </Button>
+              )}
+            </CardContent>
+          </Card>
+        )}
+
+        {/* Film Reveal */}
+        {canManageEvent(weddingEvent.role) && (
+          <Card className="glass-card animate-slide-up" style={{ animationDelay: "0.27s" }}>
+            <CardContent className="pt-6 space-y-3">
+              <div>
+                <Label htmlFor="eventRevealAt">Develop the Film</Label>
+                <p className="text-sm text-muted-foreground">
+                  {weddingEvent.reveal_at === null
+                    ? "Guests see everyone's moments as soon as they share one"
+                    : isRevealed(weddingEvent.reveal_at)
+                      ? `Developed ${new Date(weddingEvent.reveal_at).toLocaleString()}`
+                      : `Guests see everyone's moments from ${new Date(weddingEvent.reveal_at).toLocaleString()}`}
+                </p>
+              </div>
+              <div className="flex gap-2">
+                <Input
+                  id="eventRevealAt"
+                  type="datetime-local"
+                  value={newRevealAt}
+                  onChange={(e) => setNewRevealAt(e.target.value)}
+                  className="bg-background"
+                />
+                <Button
+                  variant="outline"
+                  onClick={() => handleSaveRevealAt(newRevealAt)}
+                  disabled={!newRevealAt}
+                >
+                  Save
+                </Button>
+                {weddingEvent.reveal_at !== null && (
+                  <Button variant="ghost" onClick={() => handleSaveRevealAt("")}>
+                    Clear
+                  </Button>
+                )}
+              </div>
+            </CardContent>
+          </Card>
+        )}
+
+        {/* Reported Moments */}
+        {canModerate(weddingEvent.role) && (
+          <Card className="glass-card animate-slide-up" style={{ animationDelay: "0.28s" }}>
+            <CardContent className="pt-6 space-y-4">
+              <div className="flex items-center justify-between gap-4">
+                <div>
+                  <Label htmlFor="eventReportThreshold">Reported Moments</Label>
+                  <p className="text-sm text-muted-foreground">
+                    Hidden from guests after this many reports, until you decide
+                  </p>
+                </div>
+                <Select
+                  value={String(weddingEvent.report_threshold)}
+                  onValueChange={handleSaveReportThreshold}
+                  disabled={!canManageEvent(weddingEvent.role)}
+                >
+                  <SelectTrigger id="eventReportThreshold" className="w-20 bg-background">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {REPORT_THRESHOLD_OPTIONS.map((option) => (
+                      <SelectItem key={option} value={String(option)}>
+                        {option}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <ModerationQueue
+                eventId={weddingEvent.id}
+                reportThreshold={weddingEvent.report_threshold}
+                onModerated={(decision) => decision === "delete" && fetchGuestStats(weddingEvent.id)}
+              />
+            </CardContent>
+          </Card>
+        )}
+
+        {/* Hosts */}
+        <Card className="glass-card animate-slide-up" style={{ animationDelay: "0.29s" }}>
+          <CardContent className="pt-6 space-y-4">
+            <div>
+              <Label>Hosts</Label>
+              <p className="text-sm text-muted-foreground">
+                Everyone who can open this dashboard, and what they can change
+              </p>
+            </div>
+            <EventHosts
+              key={weddingEvent.id}
+              eventId={weddingEvent.id}
+              userId={user.id}
+              role={weddingEvent.role}
+              onLeft={handleLeftEvent}
+            />
           </CardContent>
         </Card>
 
@@ -602,14 +1008,16 @@ const Dashboard = () => {
         <div className="pt-4 pb-8 space-y-3 animate-slide-up" style={{ animationDelay: "0.4s" }}>
           <h2 className="font-display text-lg text-muted-foreground">Settings</h2>
           <div className="flex flex-col gap-2">
-            <Button
-              variant="outline"
-              className="w-full justify-start border-destructive/30 text-destructive hover:bg-destructive/10"
-              onClick={() => setShowDeleteEvent(true)}
-            >
-              <Trash2 className="mr-2 h-4 w-4" />
-              Delete Wedding Event
-            </Button>
+            {canDeleteEvent(weddingEvent.role) && (
+              <Button
+                variant="outline"
+                className="w-full justify-start border-destructive/30 text-destructive hover:bg-destructive/10"
+                onClick={() => setShowDeleteEvent(true)}
+              >
+                <Trash2 className="mr-2 h-4 w-4" />
+                Delete Wedding Event
+              </Button>
+            )}
             <Button
               variant="outline"
               className="w-full justify-start border-destructive/30 text-destructive hover:bg-destructive/10"
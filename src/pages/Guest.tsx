@@ -1,12 +1,24 @@
-import { useState, useEffect } from "react";
+import { useState, useEffect, useCallback } from "react";
 import { useNavigate } from "react-router-dom";
 import { supabase } from "@/integrations/supabase/client";
 import { useGuestSession } from "@/hooks/useGuestSession";
+import { useMomentQueue } from "@/hooks/useMomentQueue";
 import { Button } from "@/components/ui/button";
 import { useToast } from "@/hooks/use-toast";
-import { Camera, Lock, ChevronUp, Leaf } from "lucide-react";
+import { Camera, Lock, ChevronUp, Leaf, Hourglass, BookImage } from "lucide-react";
 import PhotoSwipeFeed from "@/components/PhotoSwipeFeed";
 import PhotoUpload from "@/components/PhotoUpload";
+import PendingMoments from "@/components/PendingMoments";
+import RevealCountdown from "@/components/RevealCountdown";
+import EventMark from "@/components/EventMark";
+import FeedFilters from "@/components/FeedFilters";
+import GuestProfileSheet from "@/components/GuestProfileSheet";
+import MyReports from "@/components/MyReports";
+import { useFeedFilters } from "@/hooks/useFeedFilters";
+import { useMyReports } from "@/hooks/useMyReports";
+import { formatMomentsRemaining, hasMomentsLeft } from "@/lib/moments";
+import { isRevealed } from "@/lib/reveal";
+import { cn } from "@/lib/utils";
 
 interface GuestData {
   id: string;
@@ -20,6 +32,11 @@ interface WeddingEvent {
   couple_name: string;
   partner_name: string;
   wedding_date: string;
+  cover_image_url: string | null;
+  moment_allowance: number | null;
+  max_clip_seconds: number | null;
+  require_in_app_camera: boolean;
+  reveal_at: string | null;
 }
 
 const Guest = () => {
@@ -28,8 +45,23 @@ const Guest = () => {
   const [weddingEvent, setWeddingEvent] = useState<WeddingEvent | null>(null);
   const [showUpload, setShowUpload] = useState(false);
   const [loading, setLoading] = useState(true);
+  const [, setRevealTick] = useState(0);
   const navigate = useNavigate();
   const { toast } = useToast();
+  const feedFilters = useFeedFilters(guestSession?.guestId);
+  const myReports = useMyReports(guestSession?.weddingEventId, guestSession?.guestId);
+  const momentQueue = useMomentQueue(guestSession?.guestId, {
+    onSent: () => {
+      toast({ title: "Queued moment sent", description: "It's now part of the story." });
+      fetchData();
+    },
+    onFailed: (_moment, error) => {
+      toast({ title: "A queued moment couldn't be sent", description: error.message, variant: "destructive" });
+    },
+    onCancelFailed: (_moment, error) => {
+      toast({ title: "Couldn't cancel this moment", description: error.message, variant: "destructive" });
+    },
+  });
 
   useEffect(() => {
     if (!sessionLoading && !guestSession) {
@@ -43,13 +75,46 @@ const Guest = () => {
     }
   }, [guestSession]);
 
+  // The couple can rename this guest, grant more moments or remove them.
+  // Removal signs the guest out, which sends them back to /join above.
+  const guestId = guestSession?.guestId;
+  useEffect(() => {
+    if (!guestId) return;
+
+    const channel = supabase
+      .channel("my-guest")
+      .on(
+        "postgres_changes",
+        { event: "UPDATE", schema: "public", table: "guests", filter: `id=eq.${guestId}` },
+        (payload) => {
+          const { photos_remaining, has_unlocked_feed, guest_name } = payload.new as GuestData;
+          setGuestData((prev) => (prev ? { ...prev, photos_remaining, has_unlocked_feed, guest_name } : prev));
+        }
+      )
+      // Deletes can't be filtered, so check whose row went
+      .on("postgres_changes", { event: "DELETE", schema: "public", table: "guests" }, (payload) => {
+        if ((payload.old as Partial<GuestData>).id !== guestId) return;
+        toast({ title: "You've been removed", description: "The couple removed you from this wedding." });
+        supabase.auth.signOut();
+      })
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [guestId, toast]);
+
+  // The feed policy decides what is actually visible; the countdown only
+  // decides when to ask again (re-rendering re-checks the reveal time)
+  const handleRevealed = useCallback(() => setRevealTick((tick) => tick + 1), []);
+
   const fetchData = async () => {
     if (!guestSession) return;
 
     const [guestResult, eventResult] = await Promise.all([
       supabase
         .from("guests")
-        .select("*")
+        .select("id, photos_remaining, has_unlocked_feed, guest_name")
         .eq("id", guestSession.guestId)
         .single(),
       supabase
@@ -75,11 +140,16 @@ const Guest = () => {
     setLoading(false);
   };
 
+  // Also on close: a cancelled batch may have shared some moments already
   const handlePhotoUploaded = () => {
     fetchData();
     setShowUpload(false);
   };
 
+  const handleNameSaved = (guestName: string | null) => {
+    setGuestData((prev) => (prev ? { ...prev, guest_name: guestName } : prev));
+  };
+
   const handlePhotoDeleted = () => {
     fetchData();
   };
@@ -97,14 +167,37 @@ const Guest = () => {
 
   if (!guestData || !weddingEvent) return null;
 
+  const revealAt = weddingEvent.reveal_at;
+  const revealed = isRevealed(revealAt);
+
+  // Queued moments haven't been charged yet, but they will be once they send
+  const photosRemaining = weddingEvent.moment_allowance === null
+    ? guestData.photos_remaining
+    : Math.max(guestData.photos_remaining - momentQueue.pending.length, 0);
+  const canCapture = hasMomentsLeft(photosRemaining, weddingEvent.moment_allowance);
+
+  const pendingMoments = (
+    <PendingMoments
+      pending={momentQueue.pending}
+      sendingId={momentQueue.sendingId}
+      progress={momentQueue.progress}
+      onCancel={momentQueue.cancel}
+      onRetry={momentQueue.retryNow}
+    />
+  );
+
   if (showUpload) {
     return (
       <PhotoUpload
         guestId={guestSession!.guestId}
         eventId={guestSession!.weddingEventId}
-        photosRemaining={guestData.photos_remaining}
-        guestName={guestData.guest_name}
-        onClose={() => setShowUpload(false)}
+        photosRemaining={photosRemaining}
+        momentAllowance={weddingEvent.moment_allowance}
+        maxClipSeconds={weddingEvent.max_clip_seconds}
+        requireInAppCamera={weddingEvent.require_in_app_camera}
+        onShare={momentQueue.enqueue}
+        onCancelShare={momentQueue.cancel}
+        onClose={handlePhotoUploaded}
         onSuccess={handlePhotoUploaded}
       />
     );
@@ -115,49 +208,71 @@ const Guest = () => {
     return (
       <div className="min-h-screen bg-background flex flex-col">
         {/* Header */}
-        <header className="border-b border-border bg-card/50 backdrop-blur-sm p-4">
+        <header className="border-b border-border bg-card/50 backdrop-blur-sm p-4 relative">
           <div className="flex items-center justify-center gap-2">
-            <Leaf className="w-6 h-6 text-primary" />
+            <EventMark coverUrl={weddingEvent.cover_image_url} className="w-6 h-6" />
             <h1 className="font-display text-lg">
               {weddingEvent.couple_name} & {weddingEvent.partner_name}
             </h1>
           </div>
+          <div className="absolute right-4 top-1/2 -translate-y-1/2">
+            <GuestProfileSheet guestId={guestData.id} guestName={guestData.guest_name} onSaved={handleNameSaved} />
+          </div>
         </header>
 
         <div className="flex-1 flex flex-col items-center justify-center p-6 animate-fade-in">
           {/* Locked Feed Preview */}
           <div className="relative w-full max-w-sm aspect-[3/4] rounded-2xl bg-gradient-to-br from-muted to-cream-dark overflow-hidden mb-8">
-            <div className="absolute inset-0 backdrop-blur-md bg-background/30 flex flex-col items-center justify-center">
+            {weddingEvent.cover_image_url && (
+              <img src={weddingEvent.cover_image_url} alt="" className="absolute inset-0 w-full h-full object-cover" />
+            )}
+            <div
+              className={cn(
+                "absolute inset-0 z-10 flex flex-col items-center justify-center",
+                weddingEvent.cover_image_url ? "backdrop-blur-[2px] bg-background/50" : "backdrop-blur-md bg-background/30"
+              )}
+            >
               <Lock className="w-16 h-16 text-muted-foreground mb-4" />
               <p className="text-muted-foreground text-center px-8 font-display text-xl">
-                Share a moment to see everyone's photos
+                {revealed
+                  ? "Share a moment to see everyone's photos"
+                  : "Share your moments now. Everyone's photos develop together."}
               </p>
+              {!revealed && revealAt && (
+                <p className="text-muted-foreground text-sm mt-3">
+                  Developing in <RevealCountdown revealAt={revealAt} onRevealed={handleRevealed} />
+                </p>
+              )}
             </div>
-            {/* Blurred preview images */}
-            <div className="absolute inset-0 opacity-30 blur-xl">
-              <div className="absolute top-1/4 left-1/4 w-32 h-32 bg-sage rounded-lg rotate-3" />
-              <div className="absolute top-1/3 right-1/4 w-24 h-24 bg-terracotta rounded-lg -rotate-6" />
-              <div className="absolute bottom-1/4 left-1/3 w-28 h-28 bg-gold rounded-lg rotate-12" />
-            </div>
+            {/* Blurred preview images, until the couple adds a cover */}
+            {!weddingEvent.cover_image_url && (
+              <div className="absolute inset-0 opacity-30 blur-xl">
+                <div className="absolute top-1/4 left-1/4 w-32 h-32 bg-sage rounded-lg rotate-3" />
+                <div className="absolute top-1/3 right-1/4 w-24 h-24 bg-terracotta rounded-lg -rotate-6" />
+                <div className="absolute bottom-1/4 left-1/3 w-28 h-28 bg-gold rounded-lg rotate-12" />
+              </div>
+            )}
           </div>
 
           {/* Photo Counter */}
           <div className="photo-counter mb-6">
             <Camera className="w-4 h-4" />
-            <span>{guestData.photos_remaining} moments remaining</span>
+            <span>{formatMomentsRemaining(photosRemaining, weddingEvent.moment_allowance)}</span>
           </div>
 
+          {momentQueue.pending.length > 0 && <div className="-mt-3 mb-6">{pendingMoments}</div>}
+
           {/* Capture Button */}
           <Button
             onClick={() => setShowUpload(true)}
             className="gradient-sage text-primary-foreground h-16 px-12 text-lg rounded-full shadow-lg"
-            disabled={guestData.photos_remaining === 0}
+            disabled={!canCapture}
           >
             <Camera className="mr-3 h-6 w-6" />
             Capture a Moment
           </Button>
 
-          {guestData.photos_remaining === 0 && (
+          {!canCapture && (
             <p className="text-muted-foreground mt-4 text-center">
               You've used all your photos. <br />
               Each one is now part of the story.
@@ -175,34 +290,77 @@ const Guest = () => {
       <header className="fixed top-0 left-0 right-0 z-20 bg-gradient-to-b from-background via-background/80 to-transparent p-4 pb-8">
         <div className="flex items-center justify-between max-w-md mx-auto">
           <div className="flex items-center gap-2">
-            <Leaf className="w-5 h-5 text-primary" />
+            <EventMark coverUrl={weddingEvent.cover_image_url} className="w-5 h-5" />
             <span className="font-display text-sm">
               {weddingEvent.couple_name} & {weddingEvent.partner_name}
             </span>
           </div>
-          <div className="photo-counter text-xs">
-            <Camera className="w-3 h-3" />
-            <span>{guestData.photos_remaining}</span>
+          {pendingMoments}
+          <div className="flex items-center gap-1">
+            <div className="photo-counter text-xs">
+              <Camera className="w-3 h-3" />
+              <span>{weddingEvent.moment_allowance === null ? "∞" : photosRemaining}</span>
+            </div>
+            <Button
+              variant="ghost"
+              size="icon"
+              className="h-8 w-8"
+              onClick={() => navigate("/guest/album")}
+              aria-label="My album"
+            >
+              <BookImage className="w-4 h-4" />
+            </Button>
+            <GuestProfileSheet guestId={guestData.id} guestName={guestData.guest_name} onSaved={handleNameSaved} />
           </div>
         </div>
+        {/* Nothing to filter until everyone's moments are developed */}
+        {revealed && (
+          <FeedFilters
+            eventId={guestSession!.weddingEventId}
+            state={feedFilters}
+            currentGuestId={guestSession!.guestId}
+            className="max-w-md mx-auto mt-3"
+          />
+        )}
+        {myReports.reports.length > 0 && (
+          <div className="flex justify-center mt-3">
+            <MyReports reports={myReports.reports} />
+          </div>
+        )}
       </header>
 
+      {/* Before the reveal only the guest's own moments come back */}
+      {!revealed && revealAt && (
+        <div className="fixed top-16 left-0 right-0 z-20 flex justify-center px-4">
+          <div className="photo-counter text-xs">
+            <Hourglass className="w-3 h-3" />
+            <span>
+              Your moments only. Everyone's develop in <RevealCountdown revealAt={revealAt} onRevealed={handleRevealed} />
+            </span>
+          </div>
+        </div>
+      )}
+
       {/* Swipe Feed */}
       <PhotoSwipeFeed 
+        key={revealed ? "revealed" : "developing"}
         eventId={guestSession!.weddingEventId}
         currentGuestId={guestSession!.guestId}
+        currentGuestName={guestData.guest_name}
+        filters={revealed ? feedFilters.filters : undefined}
         onPhotoDeleted={handlePhotoDeleted}
+        onMomentReported={myReports.refresh}
       />
 
       {/* Floating Capture Button */}
-      {guestData.photos_remaining > 0 && (
+      {canCapture && (
         <div className="fixed bottom-6 left-0 right-0 flex justify-center z-20">
           <Button
             onClick={() => setShowUpload(true)}
             className="gradient-sage text-primary-foreground h-14 px-8 rounded-full shadow-xl"
           >
             <Camera className="mr-2 h-5 w-5" />
-            Capture ({guestData.photos_remaining})
+            {weddingEvent.moment_allowance === null ? "Capture" : `Capture (${photosRemaining})`}
           </Button>
         </div>
       )}
@@ -0,0 +1,175 @@
+import { useState, useEffect } from "react";
+import { useNavigate } from "react-router-dom";
+import { supabase } from "@/integrations/supabase/client";
+import { useGuestSession } from "@/hooks/useGuestSession";
+import { usePhotoFavorites } from "@/hooks/usePhotoFavorites";
+import { useGuestNames } from "@/hooks/useGuestNames";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Progress } from "@/components/ui/progress";
+import { ArrowLeft, Bookmark, Download, Image as ImageIcon, Leaf, Loader2, Play } from "lucide-react";
+import { isVideoPath, withThumbnailUrls } from "@/lib/photoUrls";
+import { buildAlbumArchive, saveArchive } from "@/lib/albumArchive";
+import type { PhotoRow } from "@/hooks/usePhotoPages";
+
+interface PhotoWithSignedUrl extends PhotoRow {
+  signedUrl: string | null;
+}
+
+// A guest's own moments plus the ones they've saved from everyone else
+const GuestAlbum = () => {
+  const { guestSession, loading: sessionLoading } = useGuestSession();
+  const eventId = guestSession?.weddingEventId;
+  const guestId = guestSession?.guestId;
+  const { favoriteIds, loading: favoritesLoading, toggleFavorite } = usePhotoFavorites(eventId, guestId);
+  const guestName = useGuestNames(eventId);
+  const [photos, setPhotos] = useState<PhotoWithSignedUrl[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [progress, setProgress] = useState<number | null>(null);
+  const navigate = useNavigate();
+  const { toast } = useToast();
+
+  useEffect(() => {
+    if (!sessionLoading && !guestSession) {
+      navigate("/join");
+    }
+  }, [sessionLoading, guestSession, navigate]);
+
+  useEffect(() => {
+    if (!eventId || !guestId) return;
+
+    const fetchAlbum = async () => {
+      const [ownResult, savedResult] = await Promise.all([
+        supabase.from("photos").select("*").eq("wedding_event_id", eventId).eq("guest_id", guestId),
+        supabase.from("photo_favorites").select("photo:photos(*)").eq("wedding_event_id", eventId).eq("guest_id", guestId),
+      ]);
+
+      const album = [
+        ...(ownResult.data ?? []),
+        ...(savedResult.data ?? []).map((f) => f.photo).filter((photo): photo is PhotoRow => !!photo),
+      ].sort((a, b) => new Date(b.taken_at).getTime() - new Date(a.taken_at).getTime());
+
+      setPhotos(await withThumbnailUrls(album));
+      setLoading(false);
+    };
+
+    fetchAlbum();
+  }, [eventId, guestId]);
+
+  // Unsaving hides a tile straight away
+  const albumPhotos = photos.filter((p) => p.guest_id === guestId || favoriteIds.has(p.id));
+  const ownPhotos = albumPhotos.filter((p) => p.guest_id === guestId);
+  const savedPhotos = albumPhotos.filter((p) => p.guest_id !== guestId);
+
+  const handleUnsave = async (photoId: string) => {
+    const error = await toggleFavorite(photoId);
+    if (error) {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    }
+  };
+
+  const handleDownload = async () => {
+    setProgress(0);
+    try {
+      const archive = await buildAlbumArchive(
+        albumPhotos.map((photo) => ({
+          image_url: photo.image_url,
+          taken_at: photo.taken_at,
+          sharedBy: guestName(photo.guest_id, photo.guest_name),
+        })),
+        (done, total) => setProgress(done / total)
+      );
+      await saveArchive(archive, "my-wedding-album.zip");
+    } catch (error) {
+      toast({ title: "Download failed", description: (error as Error).message, variant: "destructive" });
+    }
+    setProgress(null);
+  };
+
+  const renderTile = (photo: PhotoWithSignedUrl, saved: boolean) => (
+    <div key={photo.id} className="aspect-square rounded-lg overflow-hidden relative bg-muted">
+      {photo.signedUrl ? (
+        <img src={photo.signedUrl} alt="Album moment" loading="lazy" className="w-full h-full object-cover" />
+      ) : (
+        <div className="w-full h-full flex items-center justify-center">
+          <ImageIcon className="w-8 h-8 text-muted-foreground" />
+        </div>
+      )}
+      {isVideoPath(photo.image_url) && (
+        <Play className="absolute bottom-1.5 left-1.5 w-4 h-4 text-white drop-shadow" />
+      )}
+      {saved && (
+        <button
+          type="button"
+          onClick={() => handleUnsave(photo.id)}
+          className="absolute top-1.5 right-1.5 bg-black/50 rounded-full p-1.5"
+          aria-label="Remove from album"
+        >
+          <Bookmark className="w-3.5 h-3.5 text-white fill-white" />
+        </button>
+      )}
+    </div>
+  );
+
+  if (sessionLoading || loading || favoritesLoading) {
+    return (
+      <div className="min-h-screen bg-background flex items-center justify-center">
+        <div className="flex flex-col items-center gap-4">
+          <Leaf className="w-12 h-12 text-primary animate-pulse-soft" />
+          <p className="text-muted-foreground">Loading album...</p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-background">
+      <header className="border-b border-border bg-card/50 backdrop-blur-sm sticky top-0 z-10">
+        <div className="max-w-md mx-auto px-4 py-3 flex items-center gap-3">
+          <Button variant="ghost" size="icon" onClick={() => navigate("/guest")}>
+            <ArrowLeft className="w-5 h-5" />
+          </Button>
+          <h1 className="font-display text-lg">My Album</h1>
+          <Button
+            size="sm"
+            className="ml-auto gradient-sage text-primary-foreground rounded-full"
+            onClick={handleDownload}
+            disabled={progress !== null || albumPhotos.length === 0}
+          >
+            {progress !== null ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Download className="mr-2 h-4 w-4" />}
+            Download
+          </Button>
+        </div>
+        {progress !== null && (
+          <div className="max-w-md mx-auto px-4 pb-3">
+            <Progress value={Math.round(progress * 100)} className="h-1.5" />
+          </div>
+        )}
+      </header>
+
+      <main className="max-w-md mx-auto px-4 py-6 space-y-8">
+        <section>
+          <h2 className="font-display text-xl mb-3">Your moments</h2>
+          {ownPhotos.length > 0 ? (
+            <div className="grid grid-cols-3 gap-2">{ownPhotos.map((photo) => renderTile(photo, false))}</div>
+          ) : (
+            <p className="text-sm text-muted-foreground">You haven't shared any moments yet.</p>
+          )}
+        </section>
+
+        <section>
+          <h2 className="font-display text-xl mb-3">Saved</h2>
+          {savedPhotos.length > 0 ? (
+            <div className="grid grid-cols-3 gap-2">{savedPhotos.map((photo) => renderTile(photo, true))}</div>
+          ) : (
+            <p className="text-sm text-muted-foreground">
+              Tap the bookmark on anyone's moment in the feed to keep it here.
+            </p>
+          )}
+        </section>
+      </main>
+    </div>
+  );
+};
+
+export default GuestAlbum;
@@ -1,6 +1,5 @@
 import { useState, useEffect, useRef } from "react";
 import { useNavigate, useSearchParams } from "react-router-dom";
-import { z } from "zod";
 import { supabase } from "@/integrations/supabase/client";
 import { useGuestSession } from "@/hooks/useGuestSession";
 import { Button } from "@/components/ui/button";
@@ -9,18 +8,16 @@ import { Label } from "@/components/ui/label";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { useToast } from "@/hooks/use-toast";
 import { Leaf, Heart, Camera } from "lucide-react";
+import { formatMomentAllowance } from "@/lib/moments";
+import { guestNameSchema } from "@/lib/guests";
+import { eventCodeSchema } from "@/lib/eventCodes";
 
-// Input validation schemas
-const eventCodeSchema = z.string()
-  .min(1, "Event code is required")
-  .max(20, "Event code must be less than 20 characters")
-  .regex(/^[A-Z0-9-]+$/i, "Event code can only contain letters, numbers, and hyphens");
-
-const guestNameSchema = z.string()
-  .max(100, "Name must be less than 100 characters")
-  .regex(/^[a-zA-Z0-9\s'-]*$/, "Name can only contain letters, numbers, spaces, apostrophes, and hyphens")
-  .optional()
-  .transform(val => val?.trim() || null);
+interface EventPreview {
+  couple_name: string;
+  partner_name: string;
+  moment_allowance: number | null;
+  cover_image_url: string | null;
+}
 
 const JoinWedding = () => {
   const [searchParams] = useSearchParams();
@@ -28,6 +25,7 @@ const JoinWedding = () => {
   const [eventCode, setEventCode] = useState(codeFromUrl?.toUpperCase() || "");
   const [guestName, setGuestName] = useState("");
   const [loading, setLoading] = useState(false);
+  const [eventPreview, setEventPreview] = useState<EventPreview | null>(null);
   const { createGuestSession } = useGuestSession();
   const navigate = useNavigate();
   const { toast } = useToast();
@@ -41,6 +39,25 @@ const JoinWedding = () => {
     }
   }, [codeFromUrl]);
 
+  // Look up the event as the code is typed so we can show its moment allowance
+  useEffect(() => {
+    setEventPreview(null);
+    const codeResult = eventCodeSchema.safeParse(eventCode.trim());
+    if (!codeResult.success) return;
+
+    let cancelled = false;
+    const timeout = setTimeout(async () => {
+      const { data } = await supabase.rpc("event_preview", { code: codeResult.data }).maybeSingle();
+
+      if (!cancelled) setEventPreview(data);
+    }, 400);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timeout);
+    };
+  }, [eventCode]);
+
   const autoJoin = async (code: string) => {
     setLoading(true);
     const codeResult = eventCodeSchema.safeParse(code);
@@ -50,9 +67,7 @@ const JoinWedding = () => {
     }
 
     const { data: event, error: eventError } = await supabase
-      .from("wedding_events")
-      .select("*")
-      .eq("event_code", codeResult.data)
+      .rpc("event_preview", { code: codeResult.data })
       .maybeSingle();
 
     if (eventError || !event) {
@@ -65,7 +80,7 @@ const JoinWedding = () => {
       return;
     }
 
-    const result = await createGuestSession(event.id, null);
+    const result = await createGuestSession(codeResult.data, null);
     if (!result.success) {
       setLoading(false);
       toast({
@@ -78,7 +93,7 @@ const JoinWedding = () => {
 
     toast({
       title: `Welcome to ${event.couple_name} & ${event.partner_name}'s wedding!`,
-      description: "You have 20 moments to share.",
+      description: `You have ${formatMomentAllowance(event.moment_allowance)} to share.`,
     });
     navigate("/guest");
   };
@@ -112,9 +127,7 @@ const JoinWedding = () => {
 
     // Find the wedding event
     const { data: event, error: eventError } = await supabase
-      .from("wedding_events")
-      .select("*")
-      .eq("event_code", codeResult.data.toUpperCase().trim())
+      .rpc("event_preview", { code: codeResult.data })
       .maybeSingle();
 
     if (eventError || !event) {
@@ -128,7 +141,7 @@ const JoinWedding = () => {
     }
 
     // Create guest session using anonymous auth
-    const result = await createGuestSession(event.id, validatedName);
+    const result = await createGuestSession(codeResult.data, validatedName);
 
     if (!result.success) {
       toast({
@@ -142,7 +155,7 @@ const JoinWedding = () => {
 
     toast({
       title: `Welcome to ${event.couple_name} & ${event.partner_name}'s wedding!`,
-      description: "You have 20 moments to share.",
+      description: `You have ${formatMomentAllowance(event.moment_allowance)} to share.`,
     });
 
     navigate("/guest");
@@ -165,13 +178,24 @@ const JoinWedding = () => {
           <p className="text-muted-foreground">Enter the event code to share your moments</p>
         </div>
 
-        <Card className="glass-card">
+        <Card className="glass-card overflow-hidden">
+          {eventPreview?.cover_image_url && (
+            <img
+              src={eventPreview.cover_image_url}
+              alt={`${eventPreview.couple_name} & ${eventPreview.partner_name}`}
+              className="w-full aspect-video object-cover animate-fade-in"
+            />
+          )}
           <CardHeader className="text-center">
             <div className="w-16 h-16 rounded-full bg-sage-light mx-auto mb-4 flex items-center justify-center">
               <Camera className="w-8 h-8 text-primary" />
             </div>
             <CardTitle className="font-display text-2xl">Guest Access</CardTitle>
-            <CardDescription>You'll have 20 moments to share</CardDescription>
+            <CardDescription>
+              {eventPreview
+                ? `You'll have ${formatMomentAllowance(eventPreview.moment_allowance)} to share at ${eventPreview.couple_name} & ${eventPreview.partner_name}'s wedding`
+                : "Enter your event code to get started"}
+            </CardDescription>
           </CardHeader>
           <CardContent>
             <form onSubmit={handleJoin} className="space-y-4">
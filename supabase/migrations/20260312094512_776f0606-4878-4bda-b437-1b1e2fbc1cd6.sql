@@ -0,0 +1,95 @@
+-- Fix QUOTA_BYPASS: guests could write photos_remaining / has_unlocked_feed directly
+-- Sharing and deleting a moment now go through SECURITY DEFINER functions that
+-- insert the photo, charge the quota and unlock the feed in one transaction.
+
+-- Guests may only insert photos through share_moment()
+DROP POLICY IF EXISTS "Guests can insert own photos" ON public.photos;
+
+-- Guests keep UPDATE on their own row, but only for the display name
+REVOKE UPDATE ON public.guests FROM anon, authenticated;
+GRANT UPDATE (guest_name) ON public.guests TO authenticated;
+
+-- Guests must not be able to seed their own quota when joining either
+REVOKE INSERT ON public.guests FROM anon, authenticated;
+GRANT INSERT (id, wedding_event_id, guest_name, session_token) ON public.guests TO authenticated;
+
+-- Share a moment: insert the photo, charge one credit and unlock the feed
+CREATE OR REPLACE FUNCTION public.share_moment(
+  event_uuid uuid,
+  image_path text,
+  caption_text text DEFAULT NULL
+)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  guest_row public.guests%ROWTYPE;
+BEGIN
+  -- Lock the guest row so concurrent uploads cannot both spend the last credit
+  SELECT * INTO guest_row
+  FROM public.guests
+  WHERE id = auth.uid() AND wedding_event_id = event_uuid
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'You are not a guest of this event' USING ERRCODE = '42501';
+  END IF;
+
+  IF guest_row.photos_remaining <= 0 THEN
+    RAISE EXCEPTION 'You have no moments remaining' USING ERRCODE = 'P0001';
+  END IF;
+
+  INSERT INTO public.photos (wedding_event_id, guest_id, image_url, guest_name, caption)
+  VALUES (event_uuid, guest_row.id, image_path, guest_row.guest_name, NULLIF(btrim(caption_text), ''));
+
+  UPDATE public.guests
+  SET photos_remaining = photos_remaining - 1,
+      has_unlocked_feed = true
+  WHERE id = guest_row.id;
+
+  RETURN guest_row.photos_remaining - 1;
+END;
+$$;
+
+-- Delete one of your own moments and restore its credit
+CREATE OR REPLACE FUNCTION public.delete_moment(photo_uuid uuid)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  remaining integer;
+BEGIN
+  DELETE FROM public.photos
+  WHERE id = photo_uuid AND guest_id = auth.uid();
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Photo not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  UPDATE public.guests
+  SET photos_remaining = LEAST(photos_remaining + 1, 20)
+  WHERE id = auth.uid()
+  RETURNING photos_remaining INTO remaining;
+
+  RETURN remaining;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.share_moment(uuid, text, text) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION public.delete_moment(uuid) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.share_moment(uuid, text, text) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.delete_moment(uuid) TO authenticated;
+
+-- Guests can remove files in their own folder ({event_id}/{guest_id}/...),
+-- so a refused or deleted moment does not leave an orphaned object behind
+CREATE POLICY "Guests can delete own uploads"
+ON storage.objects
+FOR DELETE
+USING (
+  bucket_id = 'wedding-photos' AND
+  (storage.foldername(name))[2] = auth.uid()::text
+);
@@ -0,0 +1,112 @@
+-- Per-event moment allowance chosen by the couple (NULL = unlimited)
+ALTER TABLE public.wedding_events
+  ADD COLUMN moment_allowance INTEGER DEFAULT 20
+  CONSTRAINT wedding_events_moment_allowance_positive CHECK (moment_allowance IS NULL OR moment_allowance > 0);
+
+-- Seed every new guest's quota from their event instead of the column default
+CREATE OR REPLACE FUNCTION public.seed_guest_photos_remaining()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  SELECT COALESCE(moment_allowance, 0) INTO NEW.photos_remaining
+  FROM public.wedding_events
+  WHERE id = NEW.wedding_event_id;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER seed_guest_photos_remaining
+  BEFORE INSERT ON public.guests
+  FOR EACH ROW
+  EXECUTE FUNCTION public.seed_guest_photos_remaining();
+
+-- share_moment: only charge (and refuse at zero) when the event has a limit.
+-- Returns the remaining credits, or NULL for unlimited events.
+CREATE OR REPLACE FUNCTION public.share_moment(
+  event_uuid uuid,
+  image_path text,
+  caption_text text DEFAULT NULL
+)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  guest_row public.guests%ROWTYPE;
+  allowance integer;
+BEGIN
+  -- Lock the guest row so concurrent uploads cannot both spend the last credit
+  SELECT * INTO guest_row
+  FROM public.guests
+  WHERE id = auth.uid() AND wedding_event_id = event_uuid
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'You are not a guest of this event' USING ERRCODE = '42501';
+  END IF;
+
+  SELECT moment_allowance INTO allowance
+  FROM public.wedding_events
+  WHERE id = event_uuid;
+
+  IF allowance IS NOT NULL AND guest_row.photos_remaining <= 0 THEN
+    RAISE EXCEPTION 'You have no moments remaining' USING ERRCODE = 'P0001';
+  END IF;
+
+  INSERT INTO public.photos (wedding_event_id, guest_id, image_url, guest_name, caption)
+  VALUES (event_uuid, guest_row.id, image_path, guest_row.guest_name, NULLIF(btrim(caption_text), ''));
+
+  UPDATE public.guests
+  SET photos_remaining = CASE WHEN allowance IS NULL THEN photos_remaining ELSE photos_remaining - 1 END,
+      has_unlocked_feed = true
+  WHERE id = guest_row.id;
+
+  IF allowance IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  RETURN guest_row.photos_remaining - 1;
+END;
+$$;
+
+-- delete_moment: restore the credit, capped at the event's allowance
+CREATE OR REPLACE FUNCTION public.delete_moment(photo_uuid uuid)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  event_uuid uuid;
+  allowance integer;
+  remaining integer;
+BEGIN
+  DELETE FROM public.photos
+  WHERE id = photo_uuid AND guest_id = auth.uid()
+  RETURNING wedding_event_id INTO event_uuid;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Photo not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  SELECT moment_allowance INTO allowance
+  FROM public.wedding_events
+  WHERE id = event_uuid;
+
+  IF allowance IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  UPDATE public.guests
+  SET photos_remaining = LEAST(photos_remaining + 1, allowance)
+  WHERE id = auth.uid()
+  RETURNING photos_remaining INTO remaining;
+
+  RETURN remaining;
+END;
+$$;
@@ -0,0 +1,63 @@
+-- Idempotent share_moment for the offline capture queue
+-- The client now generates the photo id up front, so a retried request for a
+-- moment that already reached the server returns the current quota instead of
+-- inserting (and charging) a second time.
+
+DROP FUNCTION IF EXISTS public.share_moment(uuid, text, text);
+
+CREATE OR REPLACE FUNCTION public.share_moment(
+  photo_uuid uuid,
+  event_uuid uuid,
+  image_path text,
+  caption_text text DEFAULT NULL
+)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  guest_row public.guests%ROWTYPE;
+  allowance integer;
+BEGIN
+  -- Lock the guest row so concurrent uploads (or retries) are serialized
+  SELECT * INTO guest_row
+  FROM public.guests
+  WHERE id = auth.uid() AND wedding_event_id = event_uuid
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'You are not a guest of this event' USING ERRCODE = '42501';
+  END IF;
+
+  SELECT moment_allowance INTO allowance
+  FROM public.wedding_events
+  WHERE id = event_uuid;
+
+  -- Already shared by an earlier attempt: don't insert or charge again
+  IF EXISTS (SELECT 1 FROM public.photos WHERE id = photo_uuid AND guest_id = guest_row.id) THEN
+    RETURN CASE WHEN allowance IS NULL THEN NULL ELSE guest_row.photos_remaining END;
+  END IF;
+
+  IF allowance IS NOT NULL AND guest_row.photos_remaining <= 0 THEN
+    RAISE EXCEPTION 'You have no moments remaining' USING ERRCODE = 'P0001';
+  END IF;
+
+  INSERT INTO public.photos (id, wedding_event_id, guest_id, image_url, guest_name, caption)
+  VALUES (photo_uuid, event_uuid, guest_row.id, image_path, guest_row.guest_name, NULLIF(btrim(caption_text), ''));
+
+  UPDATE public.guests
+  SET photos_remaining = CASE WHEN allowance IS NULL THEN photos_remaining ELSE photos_remaining - 1 END,
+      has_unlocked_feed = true
+  WHERE id = guest_row.id;
+
+  IF allowance IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  RETURN guest_row.photos_remaining - 1;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.share_moment(uuid, uuid, text, text) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.share_moment(uuid, uuid, text, text) TO authenticated;
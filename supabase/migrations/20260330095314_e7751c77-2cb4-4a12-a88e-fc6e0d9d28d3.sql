@@ -0,0 +1,21 @@
+-- Accept the same formats the app does (src/lib/mediaFormats.ts). HEIC photos
+-- are converted to JPEG on the device, so they never reach storage as HEIC.
+DROP POLICY IF EXISTS "Allow photo uploads" ON storage.objects;
+
+CREATE POLICY "Allow photo uploads"
+ON storage.objects
+FOR INSERT
+WITH CHECK (
+  bucket_id = 'wedding-photos' AND
+  lower(storage.extension(name)) IN ('jpg', 'jpeg', 'png', 'gif', 'webp', 'mp4', 'mov', 'webm', 'm4v')
+);
+
+-- Hard cap at the largest per-type limit (videos, 500 MB); photos are capped
+-- lower on the client and are compressed well below that anyway
+UPDATE storage.buckets
+SET file_size_limit = 524288000,
+    allowed_mime_types = ARRAY[
+      'image/jpeg', 'image/png', 'image/gif', 'image/webp',
+      'video/mp4', 'video/quicktime', 'video/webm', 'video/x-m4v'
+    ]
+WHERE id = 'wedding-photos';
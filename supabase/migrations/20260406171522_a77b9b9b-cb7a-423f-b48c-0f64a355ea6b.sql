@@ -0,0 +1,98 @@
+-- Couples can ask for fresh shots only: moments must come from the in-app
+-- disposable camera, not the gallery
+ALTER TABLE public.wedding_events
+  ADD COLUMN require_in_app_camera BOOLEAN NOT NULL DEFAULT false;
+
+-- How a moment was captured. Reported by the client, so this keeps honest
+-- guests on the intended path rather than being tamper-proof.
+ALTER TABLE public.photos
+  ADD COLUMN capture_source TEXT NOT NULL DEFAULT 'upload'
+  CONSTRAINT photos_capture_source_check CHECK (capture_source IN ('camera', 'upload'));
+
+-- share_moment: record the capture source and enforce the event's camera rule
+DROP FUNCTION IF EXISTS public.share_moment(uuid, uuid, text, text, text, timestamptz, text, text);
+
+CREATE OR REPLACE FUNCTION public.share_moment(
+  photo_uuid uuid,
+  event_uuid uuid,
+  image_path text,
+  caption_text text DEFAULT NULL,
+  poster_path text DEFAULT NULL,
+  taken_at_value timestamptz DEFAULT NULL,
+  thumbnail_path text DEFAULT NULL,
+  medium_path text DEFAULT NULL,
+  capture_source text DEFAULT 'upload'
+)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  guest_row public.guests%ROWTYPE;
+  event_row public.wedding_events%ROWTYPE;
+  allowance integer;
+BEGIN
+  -- Lock the guest row so concurrent uploads (or retries) are serialized
+  SELECT * INTO guest_row
+  FROM public.guests
+  WHERE id = auth.uid() AND wedding_event_id = event_uuid
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'You are not a guest of this event' USING ERRCODE = '42501';
+  END IF;
+
+  SELECT * INTO event_row
+  FROM public.wedding_events
+  WHERE id = event_uuid;
+
+  allowance := event_row.moment_allowance;
+
+  -- Already shared by an earlier attempt: don't insert or charge again
+  IF EXISTS (SELECT 1 FROM public.photos WHERE id = photo_uuid AND guest_id = guest_row.id) THEN
+    RETURN CASE WHEN allowance IS NULL THEN NULL ELSE guest_row.photos_remaining END;
+  END IF;
+
+  IF event_row.require_in_app_camera AND capture_source IS DISTINCT FROM 'camera' THEN
+    RAISE EXCEPTION 'This wedding only accepts shots from the in-app camera' USING ERRCODE = 'P0001';
+  END IF;
+
+  IF allowance IS NOT NULL AND guest_row.photos_remaining <= 0 THEN
+    RAISE EXCEPTION 'You have no moments remaining' USING ERRCODE = 'P0001';
+  END IF;
+
+  -- Device clocks can be wrong; never let a moment claim to be from the future
+  INSERT INTO public.photos (
+    id, wedding_event_id, guest_id, image_url, poster_url, thumbnail_url, medium_url,
+    guest_name, caption, taken_at, capture_source
+  )
+  VALUES (
+    photo_uuid,
+    event_uuid,
+    guest_row.id,
+    image_path,
+    poster_path,
+    thumbnail_path,
+    medium_path,
+    guest_row.guest_name,
+    NULLIF(btrim(caption_text), ''),
+    LEAST(COALESCE(taken_at_value, now()), now()),
+    COALESCE(capture_source, 'upload')
+  );
+
+  UPDATE public.guests
+  SET photos_remaining = CASE WHEN allowance IS NULL THEN photos_remaining ELSE photos_remaining - 1 END,
+      has_unlocked_feed = true
+  WHERE id = guest_row.id;
+
+  IF allowance IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  RETURN guest_row.photos_remaining - 1;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.share_moment(uuid, uuid, text, text, text, timestamptz, text, text, text) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.share_moment(uuid, uuid, text, text, text, timestamptz, text, text, text) TO authenticated;
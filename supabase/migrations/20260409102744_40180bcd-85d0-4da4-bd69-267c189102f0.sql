@@ -0,0 +1,87 @@
+-- Emoji reactions on moments: one per guest per photo
+CREATE TABLE public.photo_reactions (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  photo_id UUID NOT NULL REFERENCES public.photos(id) ON DELETE CASCADE,
+  -- Denormalized from the photo so realtime can filter by event
+  wedding_event_id UUID NOT NULL REFERENCES public.wedding_events(id) ON DELETE CASCADE,
+  guest_id UUID NOT NULL REFERENCES public.guests(id) ON DELETE CASCADE,
+  emoji TEXT NOT NULL
+    CONSTRAINT photo_reactions_emoji_check CHECK (emoji IN ('❤️', '😂', '😍', '🥹', '🎉', '👏')),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CONSTRAINT photo_reactions_one_per_guest UNIQUE (photo_id, guest_id)
+);
+
+CREATE INDEX idx_photo_reactions_event ON public.photo_reactions (wedding_event_id);
+
+ALTER TABLE public.photo_reactions ENABLE ROW LEVEL SECURITY;
+
+-- Guests who have unlocked the feed can see reactions in their event
+CREATE POLICY "Guests can view event reactions"
+ON public.photo_reactions
+FOR SELECT
+USING (
+  EXISTS (
+    SELECT 1 FROM public.guests
+    WHERE id = auth.uid()
+    AND wedding_event_id = photo_reactions.wedding_event_id
+    AND has_unlocked_feed = true
+  )
+);
+
+-- Couples can see reactions on their events
+CREATE POLICY "Couples can view event reactions"
+ON public.photo_reactions
+FOR SELECT
+USING (
+  EXISTS (
+    SELECT 1 FROM public.wedding_events
+    WHERE id = photo_reactions.wedding_event_id
+    AND couple_user_id = auth.uid()
+  )
+);
+
+-- Guests react as themselves, to photos of their own event, once unlocked
+CREATE POLICY "Guests can react to event photos"
+ON public.photo_reactions
+FOR INSERT
+WITH CHECK (
+  guest_id = auth.uid()
+  AND EXISTS (
+    SELECT 1 FROM public.guests
+    WHERE id = auth.uid()
+    AND wedding_event_id = photo_reactions.wedding_event_id
+    AND has_unlocked_feed = true
+  )
+  AND EXISTS (
+    SELECT 1 FROM public.photos
+    WHERE id = photo_reactions.photo_id
+    AND wedding_event_id = photo_reactions.wedding_event_id
+  )
+);
+
+-- Changing a reaction swaps the emoji; nothing else may move
+CREATE POLICY "Guests can change own reactions"
+ON public.photo_reactions
+FOR UPDATE
+USING (guest_id = auth.uid())
+WITH CHECK (
+  guest_id = auth.uid()
+  AND EXISTS (
+    SELECT 1 FROM public.photos
+    WHERE id = photo_reactions.photo_id
+    AND wedding_event_id = photo_reactions.wedding_event_id
+  )
+);
+
+CREATE POLICY "Guests can remove own reactions"
+ON public.photo_reactions
+FOR DELETE
+USING (guest_id = auth.uid());
+
+REVOKE UPDATE ON public.photo_reactions FROM anon, authenticated;
+GRANT UPDATE (emoji) ON public.photo_reactions TO authenticated;
+
+-- Live counts. Deletes only carry the primary key under RLS, which is
+-- enough for clients to drop the reaction they already know about.
+ALTER TABLE public.photo_reactions REPLICA IDENTITY FULL;
+ALTER PUBLICATION supabase_realtime ADD TABLE public.photo_reactions;
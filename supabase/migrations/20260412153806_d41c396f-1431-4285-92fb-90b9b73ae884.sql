@@ -0,0 +1,103 @@
+-- Comment threads on moments, for everything that doesn't fit in a caption
+CREATE TABLE public.photo_comments (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  photo_id UUID NOT NULL REFERENCES public.photos(id) ON DELETE CASCADE,
+  -- Denormalized from the photo so realtime can filter by event
+  wedding_event_id UUID NOT NULL REFERENCES public.wedding_events(id) ON DELETE CASCADE,
+  guest_id UUID NOT NULL REFERENCES public.guests(id) ON DELETE CASCADE,
+  -- Snapshot of the author's name, stamped by the trigger below
+  guest_name TEXT,
+  body TEXT NOT NULL
+    CONSTRAINT photo_comments_body_length CHECK (char_length(btrim(body)) >= 1 AND char_length(body) <= 500),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_photo_comments_photo ON public.photo_comments (photo_id, created_at);
+CREATE INDEX idx_photo_comments_event ON public.photo_comments (wedding_event_id);
+
+-- Attribute comments to the guest's own name rather than whatever the client sends
+CREATE OR REPLACE FUNCTION public.stamp_photo_comment_author()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  SELECT guest_name INTO NEW.guest_name
+  FROM public.guests
+  WHERE id = NEW.guest_id;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER stamp_photo_comment_author
+  BEFORE INSERT ON public.photo_comments
+  FOR EACH ROW
+  EXECUTE FUNCTION public.stamp_photo_comment_author();
+
+ALTER TABLE public.photo_comments ENABLE ROW LEVEL SECURITY;
+
+-- Guests who have unlocked the feed can read comments in their event
+CREATE POLICY "Guests can view event comments"
+ON public.photo_comments
+FOR SELECT
+USING (
+  EXISTS (
+    SELECT 1 FROM public.guests
+    WHERE id = auth.uid()
+    AND wedding_event_id = photo_comments.wedding_event_id
+    AND has_unlocked_feed = true
+  )
+);
+
+-- Couples can read comments on their events
+CREATE POLICY "Couples can view event comments"
+ON public.photo_comments
+FOR SELECT
+USING (
+  EXISTS (
+    SELECT 1 FROM public.wedding_events
+    WHERE id = photo_comments.wedding_event_id
+    AND couple_user_id = auth.uid()
+  )
+);
+
+-- Guests comment as themselves, on photos of their own event, once unlocked
+CREATE POLICY "Guests can comment on event photos"
+ON public.photo_comments
+FOR INSERT
+WITH CHECK (
+  guest_id = auth.uid()
+  AND EXISTS (
+    SELECT 1 FROM public.guests
+    WHERE id = auth.uid()
+    AND wedding_event_id = photo_comments.wedding_event_id
+    AND has_unlocked_feed = true
+  )
+  AND EXISTS (
+    SELECT 1 FROM public.photos
+    WHERE id = photo_comments.photo_id
+    AND wedding_event_id = photo_comments.wedding_event_id
+  )
+);
+
+CREATE POLICY "Guests can delete own comments"
+ON public.photo_comments
+FOR DELETE
+USING (guest_id = auth.uid());
+
+CREATE POLICY "Couples can delete comments on their events"
+ON public.photo_comments
+FOR DELETE
+USING (
+  EXISTS (
+    SELECT 1 FROM public.wedding_events
+    WHERE id = photo_comments.wedding_event_id
+    AND couple_user_id = auth.uid()
+  )
+);
+
+-- Comments arrive live. Deletes only carry the primary key under RLS.
+ALTER TABLE public.photo_comments REPLICA IDENTITY FULL;
+ALTER PUBLICATION supabase_realtime ADD TABLE public.photo_comments;
@@ -0,0 +1,73 @@
+-- "Develop the film": guests only see each other's moments once the event's
+-- reveal time has passed (NULL = straight away, as before)
+ALTER TABLE public.wedding_events
+  ADD COLUMN reveal_at TIMESTAMP WITH TIME ZONE;
+
+-- Whether the signed-in guest can see everyone's moments in an event.
+-- SECURITY DEFINER so policies on other tables can call it without
+-- depending on the guests and wedding_events policies.
+CREATE OR REPLACE FUNCTION public.guest_can_view_event_feed(event_uuid uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM public.guests
+    JOIN public.wedding_events ON wedding_events.id = guests.wedding_event_id
+    WHERE guests.id = auth.uid()
+    AND guests.wedding_event_id = event_uuid
+    AND guests.has_unlocked_feed = true
+    AND (wedding_events.reveal_at IS NULL OR wedding_events.reveal_at <= now())
+  );
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.guest_can_view_event_feed(uuid) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.guest_can_view_event_feed(uuid) TO authenticated;
+
+-- Enforce the reveal on the feed itself. Realtime respects this too, so
+-- nothing reaches other guests early.
+DROP POLICY IF EXISTS "Guests can view event photos" ON public.photos;
+
+CREATE POLICY "Guests can view event photos"
+ON public.photos
+FOR SELECT
+USING (public.guest_can_view_event_feed(wedding_event_id));
+
+-- Before the reveal a guest still sees what they shot themselves
+CREATE POLICY "Guests can view own photos"
+ON public.photos
+FOR SELECT
+USING (guest_id = auth.uid());
+
+-- Reactions and comments follow their photo, so a thread can't give an
+-- unrevealed moment away. Adding them already requires a visible photo.
+DROP POLICY IF EXISTS "Guests can view event reactions" ON public.photo_reactions;
+
+CREATE POLICY "Guests can view event reactions"
+ON public.photo_reactions
+FOR SELECT
+USING (
+  public.guest_can_view_event_feed(wedding_event_id)
+  OR EXISTS (
+    SELECT 1 FROM public.photos
+    WHERE id = photo_reactions.photo_id
+    AND guest_id = auth.uid()
+  )
+);
+
+DROP POLICY IF EXISTS "Guests can view event comments" ON public.photo_comments;
+
+CREATE POLICY "Guests can view event comments"
+ON public.photo_comments
+FOR SELECT
+USING (
+  public.guest_can_view_event_feed(wedding_event_id)
+  OR EXISTS (
+    SELECT 1 FROM public.photos
+    WHERE id = photo_comments.photo_id
+    AND guest_id = auth.uid()
+  )
+);
@@ -0,0 +1,5 @@
+-- Feeds page through photos on (taken_at, id), newest first. Include the id
+-- so moments taken in the same instant still page in a stable order.
+DROP INDEX IF EXISTS public.idx_photos_event_taken_at;
+
+CREATE INDEX idx_photos_event_taken_at ON public.photos (wedding_event_id, taken_at DESC, id DESC);
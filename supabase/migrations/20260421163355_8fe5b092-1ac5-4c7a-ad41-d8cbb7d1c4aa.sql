@@ -0,0 +1,26 @@
+-- Photo or video, so feeds can filter without pattern-matching paths
+ALTER TABLE public.photos
+  ADD COLUMN media_type TEXT GENERATED ALWAYS AS (
+    CASE WHEN lower(image_url) ~ '\.(mp4|mov|webm|m4v|avi|mkv)$' THEN 'video' ELSE 'photo' END
+  ) STORED;
+
+CREATE INDEX idx_photos_event_guest_taken_at ON public.photos (wedding_event_id, guest_id, taken_at DESC, id DESC);
+
+-- Everyone who has shared in an event, for the feed's guest picker.
+-- SECURITY INVOKER so the photo policies (and the reveal) still apply.
+CREATE OR REPLACE FUNCTION public.event_photographers(event_uuid uuid)
+RETURNS TABLE (guest_id uuid, guest_name text, moment_count bigint)
+LANGUAGE sql
+STABLE
+SECURITY INVOKER
+SET search_path = public
+AS $$
+  SELECT photos.guest_id, max(photos.guest_name), count(*)
+  FROM public.photos
+  WHERE photos.wedding_event_id = event_uuid
+  GROUP BY photos.guest_id
+  ORDER BY max(photos.guest_name) NULLS LAST;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.event_photographers(uuid) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.event_photographers(uuid) TO authenticated;
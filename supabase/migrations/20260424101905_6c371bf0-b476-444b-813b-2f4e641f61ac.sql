@@ -0,0 +1,44 @@
+-- Attribution comes from the guest record, so renaming yourself updates
+-- every moment and comment you've shared. Guests can now see the names of
+-- the other guests in their event - and nothing else about them.
+
+-- The signed-in guest's event. SECURITY DEFINER so the guests policy below
+-- can use it without querying guests through itself.
+CREATE OR REPLACE FUNCTION public.current_guest_event_id()
+RETURNS uuid
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT wedding_event_id FROM public.guests WHERE id = auth.uid();
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.current_guest_event_id() FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.current_guest_event_id() TO authenticated;
+
+CREATE POLICY "Guests can view fellow guests"
+ON public.guests
+FOR SELECT
+USING (wedding_event_id = public.current_guest_event_id());
+
+-- session_token stays private now that other guests' rows are readable
+REVOKE SELECT ON public.guests FROM anon, authenticated;
+GRANT SELECT (id, wedding_event_id, guest_name, photos_remaining, has_unlocked_feed, created_at)
+  ON public.guests TO authenticated;
+
+-- The guest picker names people by their current name too
+CREATE OR REPLACE FUNCTION public.event_photographers(event_uuid uuid)
+RETURNS TABLE (guest_id uuid, guest_name text, moment_count bigint)
+LANGUAGE sql
+STABLE
+SECURITY INVOKER
+SET search_path = public
+AS $$
+  SELECT photos.guest_id, COALESCE(max(guests.guest_name), max(photos.guest_name)), count(*)
+  FROM public.photos
+  LEFT JOIN public.guests ON guests.id = photos.guest_id
+  WHERE photos.wedding_event_id = event_uuid
+  GROUP BY photos.guest_id
+  ORDER BY 2 NULLS LAST;
+$$;
@@ -0,0 +1,37 @@
+-- Moments a guest has saved to their own album, usually shots other
+-- people took of them. Private to the guest who saved them.
+CREATE TABLE public.photo_favorites (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  photo_id UUID NOT NULL REFERENCES public.photos(id) ON DELETE CASCADE,
+  wedding_event_id UUID NOT NULL REFERENCES public.wedding_events(id) ON DELETE CASCADE,
+  guest_id UUID NOT NULL REFERENCES public.guests(id) ON DELETE CASCADE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CONSTRAINT photo_favorites_one_per_guest UNIQUE (photo_id, guest_id)
+);
+
+CREATE INDEX idx_photo_favorites_guest ON public.photo_favorites (guest_id, created_at DESC);
+
+ALTER TABLE public.photo_favorites ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Guests can view own favorites"
+ON public.photo_favorites
+FOR SELECT
+USING (guest_id = auth.uid());
+
+-- Only moments the guest can see (the photos policies apply to the subquery)
+CREATE POLICY "Guests can save event photos"
+ON public.photo_favorites
+FOR INSERT
+WITH CHECK (
+  guest_id = auth.uid()
+  AND EXISTS (
+    SELECT 1 FROM public.photos
+    WHERE id = photo_favorites.photo_id
+    AND wedding_event_id = photo_favorites.wedding_event_id
+  )
+);
+
+CREATE POLICY "Guests can remove own favorites"
+ON public.photo_favorites
+FOR DELETE
+USING (guest_id = auth.uid());
@@ -0,0 +1,169 @@
+-- Guest reports and a moderation queue for the couple.
+--   visible  - shown to every guest (the default)
+--   flagged  - reported by enough guests; hidden until the couple decides
+--   hidden   - hidden by the couple
+--   restored - the couple reviewed it and kept it; further reports don't hide it
+ALTER TABLE public.photos
+  ADD COLUMN status TEXT NOT NULL DEFAULT 'visible'
+  CONSTRAINT photos_status_check CHECK (status IN ('visible', 'flagged', 'hidden', 'restored'));
+
+-- How many reports hide a moment automatically
+ALTER TABLE public.wedding_events
+  ADD COLUMN report_threshold INTEGER NOT NULL DEFAULT 3
+  CONSTRAINT wedding_events_report_threshold_positive CHECK (report_threshold > 0);
+
+-- Guests may edit their caption, but not un-hide their own moment
+REVOKE UPDATE ON public.photos FROM anon, authenticated;
+GRANT UPDATE (caption) ON public.photos TO authenticated;
+
+-- Reports outlive a deleted photo (photo_id goes NULL) so the reporter
+-- can still see how it ended
+CREATE TABLE public.photo_reports (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  photo_id UUID REFERENCES public.photos(id) ON DELETE SET NULL,
+  wedding_event_id UUID NOT NULL REFERENCES public.wedding_events(id) ON DELETE CASCADE,
+  guest_id UUID NOT NULL REFERENCES public.guests(id) ON DELETE CASCADE,
+  reason TEXT NOT NULL
+    CONSTRAINT photo_reports_reason_check CHECK (reason IN ('inappropriate', 'unflattering', 'privacy', 'spam', 'other')),
+  resolution TEXT
+    CONSTRAINT photo_reports_resolution_check CHECK (resolution IN ('restored', 'hidden', 'deleted')),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  resolved_at TIMESTAMP WITH TIME ZONE,
+  CONSTRAINT photo_reports_one_per_guest UNIQUE (photo_id, guest_id)
+);
+
+CREATE INDEX idx_photo_reports_event ON public.photo_reports (wedding_event_id, resolved_at);
+
+ALTER TABLE public.photo_reports ENABLE ROW LEVEL SECURITY;
+
+-- Reports are written by report_moment() and resolved by moderate_moment()
+CREATE POLICY "Guests can view own reports"
+ON public.photo_reports
+FOR SELECT
+USING (guest_id = auth.uid());
+
+CREATE POLICY "Couples can view event reports"
+ON public.photo_reports
+FOR SELECT
+USING (
+  EXISTS (
+    SELECT 1 FROM public.wedding_events
+    WHERE id = photo_reports.wedding_event_id
+    AND couple_user_id = auth.uid()
+  )
+);
+
+-- Other guests only see moments nobody has had hidden
+DROP POLICY IF EXISTS "Guests can view event photos" ON public.photos;
+
+CREATE POLICY "Guests can view event photos"
+ON public.photos
+FOR SELECT
+USING (
+  status IN ('visible', 'restored')
+  AND public.guest_can_view_event_feed(wedding_event_id)
+);
+
+-- Report a moment. Once enough guests have, it's hidden from everyone but
+-- its owner and the couple. Returns the moment's status.
+CREATE OR REPLACE FUNCTION public.report_moment(photo_uuid uuid, reason_text text)
+RETURNS text
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  photo_row public.photos%ROWTYPE;
+  threshold integer;
+  report_count integer;
+BEGIN
+  -- Lock the photo so concurrent reports count once each
+  SELECT * INTO photo_row
+  FROM public.photos
+  WHERE id = photo_uuid
+  FOR UPDATE;
+
+  IF NOT FOUND
+    OR photo_row.status NOT IN ('visible', 'restored')
+    OR NOT public.guest_can_view_event_feed(photo_row.wedding_event_id) THEN
+    RAISE EXCEPTION 'Photo not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF photo_row.guest_id = auth.uid() THEN
+    RAISE EXCEPTION 'You can delete your own moments instead' USING ERRCODE = 'P0001';
+  END IF;
+
+  INSERT INTO public.photo_reports (photo_id, wedding_event_id, guest_id, reason)
+  VALUES (photo_uuid, photo_row.wedding_event_id, auth.uid(), reason_text)
+  ON CONFLICT (photo_id, guest_id) DO NOTHING;
+
+  IF photo_row.status = 'restored' THEN
+    RETURN photo_row.status;
+  END IF;
+
+  SELECT report_threshold INTO threshold
+  FROM public.wedding_events
+  WHERE id = photo_row.wedding_event_id;
+
+  SELECT count(*) INTO report_count
+  FROM public.photo_reports
+  WHERE photo_id = photo_uuid AND resolution IS NULL;
+
+  IF report_count >= threshold THEN
+    UPDATE public.photos SET status = 'flagged' WHERE id = photo_uuid;
+    RETURN 'flagged';
+  END IF;
+
+  RETURN photo_row.status;
+END;
+$$;
+
+-- The couple's decision on a reported moment: 'restore', 'hide' or 'delete'.
+-- Deleting removes the row; the caller removes the files from storage.
+CREATE OR REPLACE FUNCTION public.moderate_moment(photo_uuid uuid, decision text)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  resolution_value text;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM public.photos
+    JOIN public.wedding_events ON wedding_events.id = photos.wedding_event_id
+    WHERE photos.id = photo_uuid
+    AND wedding_events.couple_user_id = auth.uid()
+  ) THEN
+    RAISE EXCEPTION 'Photo not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  resolution_value := CASE decision
+    WHEN 'restore' THEN 'restored'
+    WHEN 'hide' THEN 'hidden'
+    WHEN 'delete' THEN 'deleted'
+  END;
+
+  IF resolution_value IS NULL THEN
+    RAISE EXCEPTION 'Unknown moderation decision: %', decision USING ERRCODE = '22023';
+  END IF;
+
+  UPDATE public.photo_reports
+  SET resolution = resolution_value, resolved_at = now()
+  WHERE photo_id = photo_uuid AND resolution IS NULL;
+
+  IF decision = 'delete' THEN
+    DELETE FROM public.photos WHERE id = photo_uuid;
+  ELSE
+    UPDATE public.photos SET status = resolution_value WHERE id = photo_uuid;
+  END IF;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.report_moment(uuid, text) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION public.moderate_moment(uuid, text) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.report_moment(uuid, text) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.moderate_moment(uuid, text) TO authenticated;
+
+-- Reporters see the couple's decision as it's made
+ALTER PUBLICATION supabase_realtime ADD TABLE public.photo_reports;
@@ -0,0 +1,71 @@
+-- Optional pre-approval: the couple approves each moment before other guests
+-- see it. Two more photo statuses:
+--   pending  - waiting for the couple; only the uploader and the couple see it
+--   rejected - the couple said no; still only the uploader and the couple see it
+ALTER TABLE public.wedding_events
+  ADD COLUMN require_approval BOOLEAN NOT NULL DEFAULT false;
+
+ALTER TABLE public.photos DROP CONSTRAINT photos_status_check;
+
+ALTER TABLE public.photos
+  ADD CONSTRAINT photos_status_check
+  CHECK (status IN ('pending', 'visible', 'rejected', 'flagged', 'hidden', 'restored'));
+
+-- Moments shared while approval is on start out pending, however they're
+-- inserted. "Guests can view event photos" only shows visible and restored
+-- moments, so pending ones stay with the uploader ("Guests can view own
+-- photos") and the couple.
+CREATE OR REPLACE FUNCTION public.hold_moment_for_approval()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF EXISTS (
+    SELECT 1 FROM public.wedding_events
+    WHERE id = NEW.wedding_event_id
+    AND require_approval
+  ) THEN
+    NEW.status := 'pending';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER hold_moment_for_approval
+BEFORE INSERT ON public.photos
+FOR EACH ROW
+EXECUTE FUNCTION public.hold_moment_for_approval();
+
+-- Pending moments for the review screen
+CREATE INDEX idx_photos_event_status_taken_at
+ON public.photos (wedding_event_id, status, taken_at DESC, id DESC);
+
+-- The couple's decision on a pending moment
+CREATE OR REPLACE FUNCTION public.review_moment(photo_uuid uuid, approved boolean)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE public.photos
+  SET status = CASE WHEN approved THEN 'visible' ELSE 'rejected' END
+  WHERE id = photo_uuid
+  AND status = 'pending'
+  AND EXISTS (
+    SELECT 1 FROM public.wedding_events
+    WHERE id = photos.wedding_event_id
+    AND couple_user_id = auth.uid()
+  );
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Photo not found or already reviewed' USING ERRCODE = 'P0002';
+  END IF;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.hold_moment_for_approval() FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.review_moment(uuid, boolean) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.review_moment(uuid, boolean) TO authenticated;
@@ -0,0 +1,8 @@
+-- Couples can run more than one event (rehearsal dinner, welcome party...),
+-- so each can carry a name to tell them apart
+ALTER TABLE public.wedding_events
+  ADD COLUMN event_name TEXT;
+
+-- The dashboard lists a couple's events
+CREATE INDEX IF NOT EXISTS idx_wedding_events_couple_user_id
+ON public.wedding_events (couple_user_id, created_at DESC);
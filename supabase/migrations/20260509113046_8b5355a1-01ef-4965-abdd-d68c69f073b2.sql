@@ -0,0 +1,323 @@
+-- Co-hosts: an event can be run by more than the account that created it.
+--   owner        - everything, including deleting the event
+--   co_host      - everything else: settings, guests, moderation, inviting hosts
+--   planner      - sees everything and moderates (reports, approvals, comments)
+--   photographer - sees everything
+-- An invite is a row with an email and no user; it is accepted when someone
+-- signs in with that (confirmed) email and calls accept_event_invites().
+CREATE TABLE public.event_hosts (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  wedding_event_id UUID NOT NULL REFERENCES public.wedding_events(id) ON DELETE CASCADE,
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE,
+  email TEXT NOT NULL,
+  role TEXT NOT NULL
+    CONSTRAINT event_hosts_role_check CHECK (role IN ('owner', 'co_host', 'planner', 'photographer')),
+  invited_by UUID DEFAULT auth.uid(),
+  accepted_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CONSTRAINT event_hosts_one_invite_per_email UNIQUE (wedding_event_id, email),
+  CONSTRAINT event_hosts_one_role_per_user UNIQUE (wedding_event_id, user_id)
+);
+
+CREATE INDEX idx_event_hosts_user_id ON public.event_hosts (user_id);
+
+-- Emails are matched case-insensitively
+CREATE OR REPLACE FUNCTION public.normalize_event_host_email()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  NEW.email := lower(trim(NEW.email));
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER normalize_event_host_email
+BEFORE INSERT ON public.event_hosts
+FOR EACH ROW
+EXECUTE FUNCTION public.normalize_event_host_email();
+
+-- Whether the signed-in user hosts an event in one of the given roles
+CREATE OR REPLACE FUNCTION public.has_event_role(
+  event_uuid uuid,
+  roles text[] DEFAULT ARRAY['owner', 'co_host', 'planner', 'photographer']
+)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.event_hosts
+    WHERE wedding_event_id = event_uuid
+    AND user_id = auth.uid()
+    AND accepted_at IS NOT NULL
+    AND role = ANY(roles)
+  );
+$$;
+
+-- Whoever creates an event owns it
+CREATE OR REPLACE FUNCTION public.add_event_owner()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO public.event_hosts (wedding_event_id, user_id, email, role, invited_by, accepted_at)
+  SELECT NEW.id, users.id, users.email, 'owner', users.id, now()
+  FROM auth.users
+  WHERE users.id = NEW.couple_user_id;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER add_event_owner
+AFTER INSERT ON public.wedding_events
+FOR EACH ROW
+EXECUTE FUNCTION public.add_event_owner();
+
+INSERT INTO public.event_hosts (wedding_event_id, user_id, email, role, invited_by, accepted_at)
+SELECT wedding_events.id, users.id, users.email, 'owner', users.id, wedding_events.created_at
+FROM public.wedding_events
+JOIN auth.users ON users.id = wedding_events.couple_user_id
+ON CONFLICT DO NOTHING;
+
+-- Accept every open invite for the signed-in user's email. The email must be
+-- confirmed, so signing up with someone else's address doesn't take their place.
+CREATE OR REPLACE FUNCTION public.accept_event_invites()
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  accepted integer;
+BEGIN
+  UPDATE public.event_hosts
+  SET user_id = users.id, accepted_at = now()
+  FROM auth.users
+  WHERE users.id = auth.uid()
+  AND users.email_confirmed_at IS NOT NULL
+  AND event_hosts.email = lower(users.email)
+  AND event_hosts.user_id IS NULL
+  -- Already hosting under another address
+  AND NOT EXISTS (
+    SELECT 1 FROM public.event_hosts existing
+    WHERE existing.wedding_event_id = event_hosts.wedding_event_id
+    AND existing.user_id = users.id
+  );
+
+  GET DIAGNOSTICS accepted = ROW_COUNT;
+  RETURN accepted;
+END;
+$$;
+
+ALTER TABLE public.event_hosts ENABLE ROW LEVEL SECURITY;
+
+-- Hosts are added by invitation and accepted through accept_event_invites()
+REVOKE INSERT, UPDATE ON public.event_hosts FROM anon, authenticated;
+GRANT INSERT (wedding_event_id, email, role) ON public.event_hosts TO authenticated;
+GRANT UPDATE (role) ON public.event_hosts TO authenticated;
+
+CREATE POLICY "Hosts can view event hosts"
+ON public.event_hosts
+FOR SELECT
+USING (public.has_event_role(wedding_event_id));
+
+-- Only owners can add, change or remove other owners
+CREATE POLICY "Owners and co-hosts can invite hosts"
+ON public.event_hosts
+FOR INSERT
+WITH CHECK (
+  public.has_event_role(wedding_event_id, ARRAY['owner', 'co_host'])
+  AND (role <> 'owner' OR public.has_event_role(wedding_event_id, ARRAY['owner']))
+);
+
+CREATE POLICY "Owners and co-hosts can change roles"
+ON public.event_hosts
+FOR UPDATE
+USING (
+  public.has_event_role(wedding_event_id, ARRAY['owner', 'co_host'])
+  AND (role <> 'owner' OR public.has_event_role(wedding_event_id, ARRAY['owner']))
+)
+WITH CHECK (
+  role <> 'owner' OR public.has_event_role(wedding_event_id, ARRAY['owner'])
+);
+
+CREATE POLICY "Owners and co-hosts can remove hosts"
+ON public.event_hosts
+FOR DELETE
+USING (
+  public.has_event_role(wedding_event_id, ARRAY['owner', 'co_host'])
+  AND (role <> 'owner' OR public.has_event_role(wedding_event_id, ARRAY['owner']))
+);
+
+-- Anyone but an owner can step down themselves
+CREATE POLICY "Hosts can leave events"
+ON public.event_hosts
+FOR DELETE
+USING (user_id = auth.uid() AND role <> 'owner');
+
+-- WEDDING_EVENTS: the creator is still recorded in couple_user_id, but access
+-- now comes from event_hosts
+DROP POLICY IF EXISTS "Couples can view own events" ON public.wedding_events;
+DROP POLICY IF EXISTS "Couples can update own events" ON public.wedding_events;
+DROP POLICY IF EXISTS "Couples can delete own events" ON public.wedding_events;
+
+CREATE POLICY "Hosts can view their events"
+ON public.wedding_events
+FOR SELECT
+USING (public.has_event_role(id));
+
+CREATE POLICY "Owners and co-hosts can update events"
+ON public.wedding_events
+FOR UPDATE
+USING (public.has_event_role(id, ARRAY['owner', 'co_host']))
+WITH CHECK (public.has_event_role(id, ARRAY['owner', 'co_host']));
+
+CREATE POLICY "Owners can delete events"
+ON public.wedding_events
+FOR DELETE
+USING (public.has_event_role(id, ARRAY['owner']));
+
+-- GUESTS
+DROP POLICY IF EXISTS "Couples can view event guests" ON public.guests;
+DROP POLICY IF EXISTS "Couples can delete event guests" ON public.guests;
+
+CREATE POLICY "Hosts can view event guests"
+ON public.guests
+FOR SELECT
+USING (public.has_event_role(wedding_event_id));
+
+CREATE POLICY "Owners and co-hosts can delete event guests"
+ON public.guests
+FOR DELETE
+TO authenticated
+USING (public.has_event_role(wedding_event_id, ARRAY['owner', 'co_host']));
+
+-- PHOTOS
+DROP POLICY IF EXISTS "Couples can view event photos" ON public.photos;
+DROP POLICY IF EXISTS "Couples can delete event photos" ON public.photos;
+
+CREATE POLICY "Hosts can view event photos"
+ON public.photos
+FOR SELECT
+USING (public.has_event_role(wedding_event_id));
+
+CREATE POLICY "Moderators can delete event photos"
+ON public.photos
+FOR DELETE
+TO authenticated
+USING (public.has_event_role(wedding_event_id, ARRAY['owner', 'co_host', 'planner']));
+
+-- Moderators clear files from storage ({event_id}/{guest_id}/...) when they
+-- delete a moment or the whole event
+CREATE POLICY "Moderators can delete event uploads"
+ON storage.objects
+FOR DELETE
+USING (
+  bucket_id = 'wedding-photos' AND
+  EXISTS (
+    SELECT 1 FROM public.event_hosts
+    WHERE event_hosts.wedding_event_id::text = (storage.foldername(name))[1]
+    AND event_hosts.user_id = auth.uid()
+    AND event_hosts.accepted_at IS NOT NULL
+    AND event_hosts.role IN ('owner', 'co_host', 'planner')
+  )
+);
+
+-- REACTIONS AND COMMENTS
+DROP POLICY IF EXISTS "Couples can view event reactions" ON public.photo_reactions;
+DROP POLICY IF EXISTS "Couples can view event comments" ON public.photo_comments;
+DROP POLICY IF EXISTS "Couples can delete comments on their events" ON public.photo_comments;
+
+CREATE POLICY "Hosts can view event reactions"
+ON public.photo_reactions
+FOR SELECT
+USING (public.has_event_role(wedding_event_id));
+
+CREATE POLICY "Hosts can view event comments"
+ON public.photo_comments
+FOR SELECT
+USING (public.has_event_role(wedding_event_id));
+
+CREATE POLICY "Moderators can delete comments on their events"
+ON public.photo_comments
+FOR DELETE
+USING (public.has_event_role(wedding_event_id, ARRAY['owner', 'co_host', 'planner']));
+
+-- REPORTS
+DROP POLICY IF EXISTS "Couples can view event reports" ON public.photo_reports;
+
+CREATE POLICY "Moderators can view event reports"
+ON public.photo_reports
+FOR SELECT
+USING (public.has_event_role(wedding_event_id, ARRAY['owner', 'co_host', 'planner']));
+
+-- Moderation decisions are open to every moderating role
+CREATE OR REPLACE FUNCTION public.moderate_moment(photo_uuid uuid, decision text)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  resolution_value text;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM public.photos
+    WHERE id = photo_uuid
+    AND public.has_event_role(wedding_event_id, ARRAY['owner', 'co_host', 'planner'])
+  ) THEN
+    RAISE EXCEPTION 'Photo not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  resolution_value := CASE decision
+    WHEN 'restore' THEN 'restored'
+    WHEN 'hide' THEN 'hidden'
+    WHEN 'delete' THEN 'deleted'
+  END;
+
+  IF resolution_value IS NULL THEN
+    RAISE EXCEPTION 'Unknown moderation decision: %', decision USING ERRCODE = '22023';
+  END IF;
+
+  UPDATE public.photo_reports
+  SET resolution = resolution_value, resolved_at = now()
+  WHERE photo_id = photo_uuid AND resolution IS NULL;
+
+  IF decision = 'delete' THEN
+    DELETE FROM public.photos WHERE id = photo_uuid;
+  ELSE
+    UPDATE public.photos SET status = resolution_value WHERE id = photo_uuid;
+  END IF;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.review_moment(photo_uuid uuid, approved boolean)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE public.photos
+  SET status = CASE WHEN approved THEN 'visible' ELSE 'rejected' END
+  WHERE id = photo_uuid
+  AND status = 'pending'
+  AND public.has_event_role(wedding_event_id, ARRAY['owner', 'co_host', 'planner']);
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Photo not found or already reviewed' USING ERRCODE = 'P0002';
+  END IF;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.add_event_owner() FROM PUBLIC, anon, authenticated;
+-- Policies on wedding_events run for signed-out visitors too; it is false for them
+REVOKE EXECUTE ON FUNCTION public.has_event_role(uuid, text[]) FROM PUBLIC;
+REVOKE EXECUTE ON FUNCTION public.accept_event_invites() FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.has_event_role(uuid, text[]) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.accept_event_invites() TO authenticated;
@@ -0,0 +1,53 @@
+-- Event covers are shown to guests before they join, so they live in their own
+-- public bucket rather than next to the private moments: {event_id}/{file}.jpg.
+-- They are cropped and re-encoded on the device, so only JPEGs arrive.
+INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+VALUES ('event-covers', 'event-covers', true, 5242880, ARRAY['image/jpeg']);
+
+-- Only the hosts who can change the event's settings manage its cover.
+-- Removing a file needs SELECT as well as DELETE.
+CREATE POLICY "Event managers can view event covers"
+ON storage.objects
+FOR SELECT
+TO authenticated
+USING (
+  bucket_id = 'event-covers' AND
+  EXISTS (
+    SELECT 1 FROM public.event_hosts
+    WHERE event_hosts.wedding_event_id::text = (storage.foldername(name))[1]
+    AND event_hosts.user_id = auth.uid()
+    AND event_hosts.accepted_at IS NOT NULL
+    AND event_hosts.role IN ('owner', 'co_host')
+  )
+);
+
+CREATE POLICY "Event managers can upload event covers"
+ON storage.objects
+FOR INSERT
+TO authenticated
+WITH CHECK (
+  bucket_id = 'event-covers' AND
+  lower(storage.extension(name)) = 'jpg' AND
+  EXISTS (
+    SELECT 1 FROM public.event_hosts
+    WHERE event_hosts.wedding_event_id::text = (storage.foldername(name))[1]
+    AND event_hosts.user_id = auth.uid()
+    AND event_hosts.accepted_at IS NOT NULL
+    AND event_hosts.role IN ('owner', 'co_host')
+  )
+);
+
+CREATE POLICY "Event managers can delete event covers"
+ON storage.objects
+FOR DELETE
+TO authenticated
+USING (
+  bucket_id = 'event-covers' AND
+  EXISTS (
+    SELECT 1 FROM public.event_hosts
+    WHERE event_hosts.wedding_event_id::text = (storage.foldername(name))[1]
+    AND event_hosts.user_id = auth.uid()
+    AND event_hosts.accepted_at IS NOT NULL
+    AND event_hosts.role IN ('owner', 'co_host')
+  )
+);
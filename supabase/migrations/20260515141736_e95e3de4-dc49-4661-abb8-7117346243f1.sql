@@ -0,0 +1,194 @@
+-- Event codes are generated on the server, can be swapped for a vanity code,
+-- and can be rotated when one leaks. A code that is replaced is retired for
+-- good, so old QR codes and links stop finding the event. Guests who already
+-- joined are tied to the event itself and keep working.
+CREATE TABLE public.retired_event_codes (
+  code TEXT NOT NULL PRIMARY KEY,
+  wedding_event_id UUID NOT NULL REFERENCES public.wedding_events(id) ON DELETE CASCADE,
+  retired_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Only read and written through the functions below
+ALTER TABLE public.retired_event_codes ENABLE ROW LEVEL SECURITY;
+
+-- Same shape the join screen accepts: letters, digits and single hyphens
+CREATE OR REPLACE FUNCTION public.is_valid_event_code(code text)
+RETURNS boolean
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT code ~ '^[A-Z0-9]+(-[A-Z0-9]+)*$' AND length(code) BETWEEN 4 AND 20;
+$$;
+
+CREATE OR REPLACE FUNCTION public.event_code_in_use(code text, except_event uuid DEFAULT NULL)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.wedding_events
+    WHERE event_code = code AND id IS DISTINCT FROM except_event
+  ) OR EXISTS (
+    SELECT 1 FROM public.retired_event_codes
+    WHERE retired_event_codes.code = event_code_in_use.code
+    AND wedding_event_id IS DISTINCT FROM except_event
+  );
+$$;
+
+-- "SARJAM-7KQ2": three letters of each name and a random suffix, without
+-- look-alike characters. The suffix grows if a length keeps colliding.
+CREATE OR REPLACE FUNCTION public.generate_event_code(couple_name text, partner_name text)
+RETURNS text
+LANGUAGE plpgsql
+VOLATILE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  alphabet constant text := 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+  prefix text;
+  suffix text;
+  candidate text;
+  attempt integer := 0;
+BEGIN
+  prefix := left(regexp_replace(upper(coalesce(couple_name, '')), '[^A-Z]', '', 'g'), 3)
+    || left(regexp_replace(upper(coalesce(partner_name, '')), '[^A-Z]', '', 'g'), 3);
+  IF prefix = '' THEN
+    prefix := 'WED';
+  END IF;
+
+  LOOP
+    suffix := '';
+    FOR i IN 1..(4 + attempt / 5) LOOP
+      suffix := suffix || substr(alphabet, 1 + floor(random() * length(alphabet))::integer, 1);
+    END LOOP;
+    candidate := prefix || '-' || suffix;
+
+    IF NOT public.event_code_in_use(candidate) THEN
+      RETURN candidate;
+    END IF;
+    attempt := attempt + 1;
+  END LOOP;
+END;
+$$;
+
+-- Every write of event_code goes through here: a missing code is generated,
+-- a new one is checked, and the one it replaces is retired
+CREATE OR REPLACE FUNCTION public.guard_event_code()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  NEW.event_code := nullif(upper(trim(NEW.event_code)), '');
+
+  IF TG_OP = 'INSERT' AND NEW.event_code IS NULL THEN
+    NEW.event_code := public.generate_event_code(NEW.couple_name, NEW.partner_name);
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'UPDATE' AND NEW.event_code IS NOT DISTINCT FROM OLD.event_code THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.event_code IS NULL OR NOT public.is_valid_event_code(NEW.event_code) THEN
+    RAISE EXCEPTION 'Event codes are 4 to 20 letters and numbers, with single hyphens between them'
+      USING ERRCODE = '22023';
+  END IF;
+
+  IF public.event_code_in_use(NEW.event_code, NEW.id) THEN
+    RAISE EXCEPTION 'The code % is already taken', NEW.event_code USING ERRCODE = '23505';
+  END IF;
+
+  -- Taking back one of this event's own old codes brings it back to life
+  DELETE FROM public.retired_event_codes WHERE code = NEW.event_code;
+
+  IF TG_OP = 'UPDATE' THEN
+    INSERT INTO public.retired_event_codes (code, wedding_event_id)
+    VALUES (OLD.event_code, OLD.id)
+    ON CONFLICT (code) DO NOTHING;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER guard_event_code
+BEFORE INSERT OR UPDATE OF event_code ON public.wedding_events
+FOR EACH ROW
+EXECUTE FUNCTION public.guard_event_code();
+
+-- Whether a vanity code can be claimed, for checking as it is typed
+CREATE OR REPLACE FUNCTION public.event_code_available(code text, event_uuid uuid DEFAULT NULL)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT public.is_valid_event_code(upper(trim(code)))
+    AND NOT public.event_code_in_use(upper(trim(code)), event_uuid);
+$$;
+
+-- Claim a vanity code. Two couples racing for the same one get a clear
+-- message rather than a constraint error.
+CREATE OR REPLACE FUNCTION public.claim_event_code(event_uuid uuid, code text)
+RETURNS text
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  claimed text;
+BEGIN
+  IF NOT public.has_event_role(event_uuid, ARRAY['owner', 'co_host']) THEN
+    RAISE EXCEPTION 'Event not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  UPDATE public.wedding_events
+  SET event_code = code
+  WHERE id = event_uuid
+  RETURNING event_code INTO claimed;
+
+  RETURN claimed;
+EXCEPTION
+  WHEN unique_violation THEN
+    RAISE EXCEPTION 'The code % is already taken', upper(trim(code)) USING ERRCODE = '23505';
+END;
+$$;
+
+-- Swap a leaked code for a fresh one
+CREATE OR REPLACE FUNCTION public.rotate_event_code(event_uuid uuid)
+RETURNS text
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  rotated text;
+BEGIN
+  IF NOT public.has_event_role(event_uuid, ARRAY['owner', 'co_host']) THEN
+    RAISE EXCEPTION 'Event not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  UPDATE public.wedding_events
+  SET event_code = public.generate_event_code(couple_name, partner_name)
+  WHERE id = event_uuid
+  RETURNING event_code INTO rotated;
+
+  RETURN rotated;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.event_code_in_use(text, uuid) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.generate_event_code(text, text) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.guard_event_code() FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.event_code_available(text, uuid) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION public.claim_event_code(uuid, text) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION public.rotate_event_code(uuid) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.event_code_available(text, uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.claim_event_code(uuid, text) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.rotate_event_code(uuid) TO authenticated;
@@ -0,0 +1,145 @@
+-- Guest management: the couple sees everyone who joined, and can rename a
+-- guest, remove them with their moments, or grant them extra moments.
+
+-- Moments granted on top of the event's allowance, so a deleted moment is
+-- refunded up to the guest's own limit rather than the event's
+ALTER TABLE public.guests
+  ADD COLUMN bonus_moments INTEGER NOT NULL DEFAULT 0;
+
+GRANT SELECT (bonus_moments) ON public.guests TO authenticated;
+
+-- Hosts who manage the event can rename guests. The column grant already
+-- limits UPDATE to guest_name.
+CREATE POLICY "Owners and co-hosts can rename event guests"
+ON public.guests
+FOR UPDATE
+TO authenticated
+USING (public.has_event_role(wedding_event_id, ARRAY['owner', 'co_host']))
+WITH CHECK (public.has_event_role(wedding_event_id, ARRAY['owner', 'co_host']));
+
+-- Everyone in an event with what they've shared and when they were last
+-- seen doing anything: joining, sharing, commenting or reacting
+CREATE OR REPLACE FUNCTION public.event_guest_list(event_uuid uuid)
+RETURNS TABLE (
+  guest_id uuid,
+  guest_name text,
+  joined_at timestamptz,
+  moments_shared bigint,
+  photos_remaining integer,
+  bonus_moments integer,
+  last_active_at timestamptz
+)
+LANGUAGE sql
+STABLE
+SECURITY INVOKER
+SET search_path = public
+AS $$
+  SELECT
+    guests.id,
+    guests.guest_name,
+    guests.created_at,
+    coalesce(shared.moments, 0),
+    guests.photos_remaining,
+    guests.bonus_moments,
+    greatest(guests.created_at, shared.last_at, commented.last_at, reacted.last_at)
+  FROM public.guests
+  LEFT JOIN (
+    SELECT photos.guest_id, count(*) AS moments, max(photos.captured_at) AS last_at
+    FROM public.photos
+    WHERE photos.wedding_event_id = event_uuid
+    GROUP BY photos.guest_id
+  ) shared ON shared.guest_id = guests.id
+  LEFT JOIN (
+    SELECT photo_comments.guest_id, max(photo_comments.created_at) AS last_at
+    FROM public.photo_comments
+    WHERE photo_comments.wedding_event_id = event_uuid
+    GROUP BY photo_comments.guest_id
+  ) commented ON commented.guest_id = guests.id
+  LEFT JOIN (
+    SELECT photo_reactions.guest_id, max(photo_reactions.created_at) AS last_at
+    FROM public.photo_reactions
+    WHERE photo_reactions.wedding_event_id = event_uuid
+    GROUP BY photo_reactions.guest_id
+  ) reacted ON reacted.guest_id = guests.id
+  WHERE guests.wedding_event_id = event_uuid
+  AND public.has_event_role(event_uuid)
+  ORDER BY 7 DESC;
+$$;
+
+-- Give a guest more moments. Events without a limit have nothing to grant.
+CREATE OR REPLACE FUNCTION public.grant_guest_moments(guest_uuid uuid, extra integer)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  remaining integer;
+BEGIN
+  IF extra IS NULL OR extra < 1 OR extra > 100 THEN
+    RAISE EXCEPTION 'Grant between 1 and 100 moments at a time' USING ERRCODE = '22023';
+  END IF;
+
+  UPDATE public.guests
+  SET photos_remaining = photos_remaining + extra,
+      bonus_moments = bonus_moments + extra
+  FROM public.wedding_events
+  WHERE guests.id = guest_uuid
+  AND wedding_events.id = guests.wedding_event_id
+  AND wedding_events.moment_allowance IS NOT NULL
+  AND public.has_event_role(guests.wedding_event_id, ARRAY['owner', 'co_host'])
+  RETURNING guests.photos_remaining INTO remaining;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Guest not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  RETURN remaining;
+END;
+$$;
+
+-- delete_moment: restore the credit, capped at the guest's own limit
+CREATE OR REPLACE FUNCTION public.delete_moment(photo_uuid uuid)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  event_uuid uuid;
+  allowance integer;
+  remaining integer;
+BEGIN
+  DELETE FROM public.photos
+  WHERE id = photo_uuid AND guest_id = auth.uid()
+  RETURNING wedding_event_id INTO event_uuid;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Photo not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  SELECT moment_allowance INTO allowance
+  FROM public.wedding_events
+  WHERE id = event_uuid;
+
+  IF allowance IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  UPDATE public.guests
+  SET photos_remaining = LEAST(photos_remaining + 1, allowance + bonus_moments)
+  WHERE id = auth.uid()
+  RETURNING photos_remaining INTO remaining;
+
+  RETURN remaining;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.event_guest_list(uuid) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION public.grant_guest_moments(uuid, integer) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.event_guest_list(uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.grant_guest_moments(uuid, integer) TO authenticated;
+
+-- Renames, grants and removals reach the guest's screen live. Realtime only
+-- sends the columns a subscriber may select, so session_token stays private.
+ALTER PUBLICATION supabase_realtime ADD TABLE public.guests;
@@ -0,0 +1,25 @@
+-- Guests who joined while the event was unlimited were seeded with 0 moments.
+-- When the couple sets a limit, give them the new allowance like anyone who
+-- joins from then on.
+CREATE OR REPLACE FUNCTION public.seed_allowance_on_limit()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE public.guests
+  SET photos_remaining = NEW.moment_allowance + bonus_moments
+  WHERE wedding_event_id = NEW.id;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER seed_allowance_on_limit
+  AFTER UPDATE OF moment_allowance ON public.wedding_events
+  FOR EACH ROW
+  WHEN (OLD.moment_allowance IS NULL AND NEW.moment_allowance IS NOT NULL)
+  EXECUTE FUNCTION public.seed_allowance_on_limit();
+
+REVOKE EXECUTE ON FUNCTION public.seed_allowance_on_limit() FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,9 @@
+-- Only the video formats the wedding-photos bucket accepts count as videos
+-- (VIDEO_EXTENSIONS in mediaFormats.ts). A generated column's expression
+-- can't be changed in place, so it's added again.
+ALTER TABLE public.photos DROP COLUMN media_type;
+
+ALTER TABLE public.photos
+  ADD COLUMN media_type TEXT GENERATED ALWAYS AS (
+    CASE WHEN lower(image_url) ~ '\.(mp4|mov|webm|m4v)$' THEN 'video' ELSE 'photo' END
+  ) STORED;
@@ -0,0 +1,39 @@
+-- Fellow guests get each other's names and nothing else. "Guests can view
+-- fellow guests" let them read each other's whole row, quota and join time
+-- included, so names now come from event_guest_names() instead and guest
+-- rows stay private to their guest and the event's hosts.
+DROP POLICY IF EXISTS "Guests can view fellow guests" ON public.guests;
+
+-- Everyone's current name, for the guests of an event and its hosts.
+-- SECURITY DEFINER so fellow guests get names without reading guest rows.
+CREATE OR REPLACE FUNCTION public.event_guest_names(event_uuid uuid)
+RETURNS TABLE (guest_id uuid, guest_name text)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT guests.id, guests.guest_name
+  FROM public.guests
+  WHERE guests.wedding_event_id = event_uuid
+  AND (event_uuid = public.current_guest_event_id() OR public.has_event_role(event_uuid));
+$$;
+
+-- The guest picker names people through it too
+CREATE OR REPLACE FUNCTION public.event_photographers(event_uuid uuid)
+RETURNS TABLE (guest_id uuid, guest_name text, moment_count bigint)
+LANGUAGE sql
+STABLE
+SECURITY INVOKER
+SET search_path = public
+AS $$
+  SELECT photos.guest_id, COALESCE(max(names.guest_name), max(photos.guest_name)), count(*)
+  FROM public.photos
+  LEFT JOIN public.event_guest_names(event_uuid) names ON names.guest_id = photos.guest_id
+  WHERE photos.wedding_event_id = event_uuid
+  GROUP BY photos.guest_id
+  ORDER BY 2 NULLS LAST;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.event_guest_names(uuid) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.event_guest_names(uuid) TO authenticated;
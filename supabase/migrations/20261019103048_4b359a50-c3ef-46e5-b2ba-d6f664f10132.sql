@@ -0,0 +1,45 @@
+-- Reactions and comments follow their photo: the subquery runs under the
+-- photo policies, so a hidden moment's thread is hidden with it
+DROP POLICY IF EXISTS "Guests can view event reactions" ON public.photo_reactions;
+
+CREATE POLICY "Guests can view event reactions"
+ON public.photo_reactions
+FOR SELECT
+USING (
+  EXISTS (
+    SELECT 1 FROM public.photos
+    WHERE id = photo_reactions.photo_id
+    AND wedding_event_id = photo_reactions.wedding_event_id
+  )
+);
+
+DROP POLICY IF EXISTS "Guests can view event comments" ON public.photo_comments;
+
+CREATE POLICY "Guests can view event comments"
+ON public.photo_comments
+FOR SELECT
+USING (
+  EXISTS (
+    SELECT 1 FROM public.photos
+    WHERE id = photo_comments.photo_id
+    AND wedding_event_id = photo_comments.wedding_event_id
+  )
+);
+
+-- Deleting a reported moment from the moderation queue removes its files
+-- ({event_id}/{guest_id}/...) as well
+DROP POLICY IF EXISTS "Moderators can delete event uploads" ON storage.objects;
+
+CREATE POLICY "Moderators can delete event uploads"
+ON storage.objects
+FOR DELETE
+USING (
+  bucket_id = 'wedding-photos' AND
+  EXISTS (
+    SELECT 1 FROM public.event_hosts
+    WHERE event_hosts.wedding_event_id::text = (storage.foldername(name))[1]
+    AND event_hosts.user_id = auth.uid()
+    AND event_hosts.accepted_at IS NOT NULL
+    AND event_hosts.role IN ('owner', 'co_host', 'planner')
+  )
+);
@@ -0,0 +1,59 @@
+-- An event always keeps an owner: the last one can't be demoted or removed.
+-- Rows that go because the event or the owner's account is being deleted
+-- are let through.
+CREATE OR REPLACE FUNCTION public.keep_event_owner()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF OLD.role <> 'owner' OR OLD.accepted_at IS NULL THEN
+    RETURN COALESCE(NEW, OLD);
+  END IF;
+
+  IF TG_OP = 'UPDATE' AND NEW.role = 'owner' THEN
+    RETURN NEW;
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM public.wedding_events WHERE id = OLD.wedding_event_id)
+    AND EXISTS (SELECT 1 FROM auth.users WHERE id = OLD.user_id)
+    AND NOT EXISTS (
+      SELECT 1 FROM public.event_hosts
+      WHERE wedding_event_id = OLD.wedding_event_id
+      AND id <> OLD.id
+      AND role = 'owner'
+      AND accepted_at IS NOT NULL
+    )
+  THEN
+    RAISE EXCEPTION 'An event needs at least one owner' USING ERRCODE = '23514';
+  END IF;
+
+  RETURN COALESCE(NEW, OLD);
+END;
+$$;
+
+CREATE TRIGGER keep_event_owner
+BEFORE UPDATE OF role OR DELETE ON public.event_hosts
+FOR EACH ROW
+EXECUTE FUNCTION public.keep_event_owner();
+
+REVOKE EXECUTE ON FUNCTION public.keep_event_owner() FROM PUBLIC, anon, authenticated;
+
+-- Host checks are for signed-in users only. The policies that make them
+-- skip signed-out requests rather than failing on has_event_role.
+ALTER POLICY "Hosts can view event hosts" ON public.event_hosts TO authenticated;
+ALTER POLICY "Owners and co-hosts can change roles" ON public.event_hosts TO authenticated;
+ALTER POLICY "Owners and co-hosts can invite hosts" ON public.event_hosts TO authenticated;
+ALTER POLICY "Owners and co-hosts can remove hosts" ON public.event_hosts TO authenticated;
+ALTER POLICY "Hosts can view event guests" ON public.guests TO authenticated;
+ALTER POLICY "Hosts can view event comments" ON public.photo_comments TO authenticated;
+ALTER POLICY "Moderators can delete comments on their events" ON public.photo_comments TO authenticated;
+ALTER POLICY "Hosts can view event reactions" ON public.photo_reactions TO authenticated;
+ALTER POLICY "Moderators can view event reports" ON public.photo_reports TO authenticated;
+ALTER POLICY "Hosts can view event photos" ON public.photos TO authenticated;
+ALTER POLICY "Hosts can view their events" ON public.wedding_events TO authenticated;
+ALTER POLICY "Owners and co-hosts can update events" ON public.wedding_events TO authenticated;
+ALTER POLICY "Owners can delete events" ON public.wedding_events TO authenticated;
+
+REVOKE EXECUTE ON FUNCTION public.has_event_role(uuid, text[]) FROM anon;
@@ -0,0 +1,70 @@
+-- Joining goes through the code alone. Events used to be readable by
+-- anyone, codes included, and guests could add themselves to any event by
+-- id, so a rotated code kept nobody out.
+DROP POLICY IF EXISTS "Anyone can view events by code" ON public.wedding_events;
+DROP POLICY IF EXISTS "Guests can create their own session" ON public.guests;
+
+CREATE POLICY "Guests can view their event"
+ON public.wedding_events
+FOR SELECT
+USING (id = public.current_guest_event_id());
+
+-- What the join screen shows about the event behind a code
+CREATE OR REPLACE FUNCTION public.event_preview(code text)
+RETURNS TABLE (couple_name text, partner_name text, moment_allowance integer, cover_image_url text)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT couple_name, partner_name, moment_allowance, cover_image_url
+  FROM public.wedding_events
+  WHERE event_code = upper(trim(code));
+$$;
+
+-- Make the signed-in (anonymous) user a guest of the event behind a code.
+-- Returns the event's id.
+CREATE OR REPLACE FUNCTION public.join_event(code text, name text DEFAULT NULL)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  event_uuid uuid;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Sign in to join an event' USING ERRCODE = '42501';
+  END IF;
+
+  IF length(name) > 100 THEN
+    RAISE EXCEPTION 'Name must be less than 100 characters' USING ERRCODE = '22023';
+  END IF;
+
+  SELECT id INTO event_uuid
+  FROM public.wedding_events
+  WHERE event_code = upper(trim(code));
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Event not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  BEGIN
+    INSERT INTO public.guests (id, wedding_event_id, guest_name, session_token)
+    VALUES (auth.uid(), event_uuid, nullif(trim(name), ''), gen_random_uuid()::text);
+  EXCEPTION WHEN unique_violation THEN
+    -- A guest belongs to one event for the life of their session
+    IF EXISTS (SELECT 1 FROM public.guests WHERE id = auth.uid() AND wedding_event_id = event_uuid) THEN
+      RAISE EXCEPTION 'You have already joined this event' USING ERRCODE = '23505';
+    END IF;
+    RAISE EXCEPTION 'You are already a guest of another event' USING ERRCODE = '23505';
+  END;
+
+  RETURN event_uuid;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.event_preview(text) FROM PUBLIC;
+REVOKE EXECUTE ON FUNCTION public.join_event(text, text) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.event_preview(text) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.join_event(text, text) TO authenticated;
@@ -0,0 +1,50 @@
+-- A moment's share time is photos.captured_at; there is no created_at. With
+-- function bodies checked, 20260518101524 stops on it, so it reads
+-- captured_at there too. Anywhere it went in unchecked, this replaces the
+-- broken event_guest_list.
+CREATE OR REPLACE FUNCTION public.event_guest_list(event_uuid uuid)
+RETURNS TABLE (
+  guest_id uuid,
+  guest_name text,
+  joined_at timestamptz,
+  moments_shared bigint,
+  photos_remaining integer,
+  bonus_moments integer,
+  last_active_at timestamptz
+)
+LANGUAGE sql
+STABLE
+SECURITY INVOKER
+SET search_path = public
+AS $$
+  SELECT
+    guests.id,
+    guests.guest_name,
+    guests.created_at,
+    coalesce(shared.moments, 0),
+    guests.photos_remaining,
+    guests.bonus_moments,
+    greatest(guests.created_at, shared.last_at, commented.last_at, reacted.last_at)
+  FROM public.guests
+  LEFT JOIN (
+    SELECT photos.guest_id, count(*) AS moments, max(photos.captured_at) AS last_at
+    FROM public.photos
+    WHERE photos.wedding_event_id = event_uuid
+    GROUP BY photos.guest_id
+  ) shared ON shared.guest_id = guests.id
+  LEFT JOIN (
+    SELECT photo_comments.guest_id, max(photo_comments.created_at) AS last_at
+    FROM public.photo_comments
+    WHERE photo_comments.wedding_event_id = event_uuid
+    GROUP BY photo_comments.guest_id
+  ) commented ON commented.guest_id = guests.id
+  LEFT JOIN (
+    SELECT photo_reactions.guest_id, max(photo_reactions.created_at) AS last_at
+    FROM public.photo_reactions
+    WHERE photo_reactions.wedding_event_id = event_uuid
+    GROUP BY photo_reactions.guest_id
+  ) reacted ON reacted.guest_id = guests.id
+  WHERE guests.wedding_event_id = event_uuid
+  AND public.has_event_role(event_uuid)
+  ORDER BY 7 DESC;
+$$;